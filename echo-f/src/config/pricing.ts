@@ -0,0 +1,45 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// USD per 1K tokens. Models are matched by longest prefix so dated releases
+// such as gpt-4-0613 pick up their family's price.
+const MODEL_PRICING: { [model: string]: ModelPrice } = {
+  'gpt-4o-mini': { prompt: 0.00015, completion: 0.0006 },
+  'gpt-4o': { prompt: 0.0025, completion: 0.01 },
+  'gpt-4-turbo': { prompt: 0.01, completion: 0.03 },
+  'gpt-4-32k': { prompt: 0.06, completion: 0.12 },
+  'gpt-4': { prompt: 0.03, completion: 0.06 },
+  'gpt-3.5-turbo': { prompt: 0.0005, completion: 0.0015 },
+  'gemini-1.5-flash': { prompt: 0.000075, completion: 0.0003 },
+  'gemini-1.5-pro': { prompt: 0.00125, completion: 0.005 },
+  'gemini-pro': { prompt: 0.0005, completion: 0.0015 },
+  'mock': { prompt: 0, completion: 0 }
+};
+
+export const getModelPrice = (model: string): ModelPrice | undefined => {
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? MODEL_PRICING[match] : undefined;
+};
+
+// Returns the cost in USD, or undefined when the model has no known price
+export const calculateCost = (model: string, usage: TokenUsage): number | undefined => {
+  const price = getModelPrice(model);
+  if (!price) return undefined;
+
+  const cost = (usage.promptTokens / 1000) * price.prompt + (usage.completionTokens / 1000) * price.completion;
+  return Math.round(cost * 1e6) / 1e6;
+};
+
+// Rough fallback for providers that do not report usage (~4 characters per token)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
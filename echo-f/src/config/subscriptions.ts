@@ -0,0 +1,37 @@
+export type SubscriptionTier = 'free' | 'pro' | 'enterprise';
+
+export interface TierLimits {
+  // null means unlimited
+  generationsPerDay: number | null;
+  maxPromptLength: number;
+  allowedStacks: string[];
+  allowedOutputs: string[];
+}
+
+export const ALL_STACKS = ['react', 'vue', 'angular', 'node', 'python', 'html-css-js', 'react-native', 'electron', 'node-react-fullstack'];
+export const ALL_OUTPUTS = ['preview', 'deploy', 'download'];
+
+export const SUBSCRIPTION_TIERS: { [key in SubscriptionTier]: TierLimits } = {
+  free: {
+    generationsPerDay: 10,
+    maxPromptLength: 500,
+    allowedStacks: ['react', 'vue', 'node', 'python', 'html-css-js'],
+    allowedOutputs: ['preview', 'download']
+  },
+  pro: {
+    generationsPerDay: 100,
+    maxPromptLength: 2000,
+    allowedStacks: ALL_STACKS,
+    allowedOutputs: ALL_OUTPUTS
+  },
+  enterprise: {
+    generationsPerDay: null,
+    maxPromptLength: 2000,
+    allowedStacks: ALL_STACKS,
+    allowedOutputs: ALL_OUTPUTS
+  }
+};
+
+export const getTierLimits = (tier?: string): TierLimits => {
+  return SUBSCRIPTION_TIERS[tier as SubscriptionTier] || SUBSCRIPTION_TIERS.free;
+};
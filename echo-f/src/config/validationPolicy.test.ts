@@ -0,0 +1,65 @@
+import { getDefaultValidationPolicy, isRuleSuppressed, resolveValidationPolicy } from './validationPolicy';
+
+describe('resolveValidationPolicy', () => {
+  it('returns the defaults without overrides', () => {
+    expect(resolveValidationPolicy(null, undefined)).toEqual(getDefaultValidationPolicy());
+  });
+
+  it('applies later layers on top of earlier ones', () => {
+    const policy = resolveValidationPolicy(
+      { checks: { security: false, tests: true }, blockingSeverities: ['error'], failOnWarnings: true },
+      { checks: { security: true }, suppressedRules: ['js/open-cors'] }
+    );
+
+    expect(policy.checks.security).toBe(true);
+    expect(policy.checks.tests).toBe(true);
+    expect(policy.checks.syntax).toBe(true);
+    expect(policy.blockingSeverities).toEqual(['error']);
+    expect(policy.suppressedRules).toEqual(['js/open-cors']);
+    expect(policy.failOnWarnings).toBe(true);
+  });
+
+  it('replaces lists instead of merging them', () => {
+    const policy = resolveValidationPolicy(
+      { blockingSeverities: ['error', 'warning'] },
+      { blockingSeverities: [] }
+    );
+
+    expect(policy.blockingSeverities).toEqual([]);
+  });
+
+  it('does not share lists with its layers', () => {
+    const layer = { suppressedRules: ['secret/*'] };
+    resolveValidationPolicy(layer).suppressedRules.push('js/eval');
+
+    expect(layer.suppressedRules).toEqual(['secret/*']);
+  });
+
+  it('takes the slow checks from the environment', () => {
+    const env = process.env;
+    process.env = { ...env, VALIDATION_TYPECHECK: 'true' };
+
+    try {
+      expect(resolveValidationPolicy().checks.typecheck).toBe(true);
+      expect(resolveValidationPolicy({ checks: { typecheck: false } }).checks.typecheck).toBe(false);
+    } finally {
+      process.env = env;
+    }
+  });
+});
+
+describe('isRuleSuppressed', () => {
+  const policy = resolveValidationPolicy({ suppressedRules: ['js/open-cors', 'secret/*'] });
+
+  it('matches exact rule ids', () => {
+    expect(isRuleSuppressed(policy, 'js/open-cors')).toBe(true);
+    expect(isRuleSuppressed(policy, 'js/open-cors-extra')).toBe(false);
+  });
+
+  it('matches every rule of a family', () => {
+    expect(isRuleSuppressed(policy, 'secret/token')).toBe(true);
+    expect(isRuleSuppressed(policy, 'secret/high-entropy-string')).toBe(true);
+    expect(isRuleSuppressed(policy, 'secretive/rule')).toBe(false);
+    expect(isRuleSuppressed(policy, 'py/eval')).toBe(false);
+  });
+});
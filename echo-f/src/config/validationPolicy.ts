@@ -0,0 +1,82 @@
+import { SecuritySeverity } from '../services/securityScanner';
+
+// Project structure checks (package.json, frontend/backend directories)
+// always run; everything else can be switched off
+export type ValidationCheck =
+  | 'syntax'
+  | 'typecheck'
+  | 'dependencies'
+  | 'framework'
+  | 'markup'
+  | 'accessibility'
+  | 'security'
+  | 'tests';
+
+export const VALIDATION_CHECKS: ValidationCheck[] = [
+  'syntax', 'typecheck', 'dependencies', 'framework', 'markup', 'accessibility', 'security', 'tests'
+];
+
+export const SECURITY_SEVERITIES: SecuritySeverity[] = ['error', 'warning', 'note'];
+
+export interface ValidationPolicy {
+  checks: Record<ValidationCheck, boolean>;
+  // Security findings of these severities fail validation
+  blockingSeverities: SecuritySeverity[];
+  // Security rule ids to ignore; "secret/*" matches every rule of a family
+  suppressedRules: string[];
+  // Every warning fails validation
+  failOnWarnings: boolean;
+}
+
+// What users and projects store: unset fields inherit from the layer below
+export interface ValidationPolicyOverrides {
+  checks?: Partial<Record<ValidationCheck, boolean>>;
+  blockingSeverities?: SecuritySeverity[];
+  suppressedRules?: string[];
+  failOnWarnings?: boolean;
+}
+
+// Type-checking and test runs are slow, so the environment decides whether
+// they run by default; a policy can still switch them on for one project.
+// Security findings do not block unless a policy says so.
+export const getDefaultValidationPolicy = (): ValidationPolicy => ({
+  checks: {
+    syntax: true,
+    typecheck: process.env.VALIDATION_TYPECHECK === 'true',
+    dependencies: true,
+    framework: true,
+    markup: true,
+    accessibility: true,
+    security: true,
+    tests: process.env.VALIDATION_RUN_TESTS === 'true'
+  },
+  blockingSeverities: [],
+  suppressedRules: [],
+  failOnWarnings: false
+});
+
+// Applies overrides on top of the defaults, later layers winning, e.g. the
+// user's default policy and then the project's. Lists are replaced, not merged.
+export const resolveValidationPolicy = (...layers: (ValidationPolicyOverrides | null | undefined)[]): ValidationPolicy => {
+  const policy = getDefaultValidationPolicy();
+
+  for (const layer of layers) {
+    if (!layer) continue;
+
+    for (const check of VALIDATION_CHECKS) {
+      const enabled = layer.checks?.[check];
+      if (typeof enabled === 'boolean') policy.checks[check] = enabled;
+    }
+    if (layer.blockingSeverities) policy.blockingSeverities = [...layer.blockingSeverities];
+    if (layer.suppressedRules) policy.suppressedRules = [...layer.suppressedRules];
+    if (typeof layer.failOnWarnings === 'boolean') policy.failOnWarnings = layer.failOnWarnings;
+  }
+
+  return policy;
+};
+
+export const isRuleSuppressed = (policy: ValidationPolicy, ruleId: string): boolean => {
+  return policy.suppressedRules.some(pattern => pattern.endsWith('/*')
+    ? ruleId.startsWith(pattern.slice(0, -1))
+    : pattern === ruleId);
+};
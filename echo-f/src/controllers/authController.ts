@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import { generateToken, generateRefreshToken } from '../utils/jwt';
+import quotaService from '../services/quotaService';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -43,7 +44,8 @@ export const register = async (req: Request, res: Response, next: NextFunction):
           id: user._id,
           name: user.name,
           email: user.email,
-          role: user.role
+          role: user.role,
+          subscription: user.subscription
         },
         token,
         refreshToken
@@ -96,7 +98,8 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
           id: user._id,
           name: user.name,
           email: user.email,
-          role: user.role
+          role: user.role,
+          subscription: user.subscription
         },
         token,
         refreshToken
@@ -122,7 +125,10 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
           name: user!.name,
           email: user!.email,
           role: user!.role,
+          subscription: user!.subscription,
           avatar: user!.avatar,
+          generationPreferences: user!.generationPreferences,
+          validationPolicy: user!.validationPolicy,
           isEmailVerified: user!.isEmailVerified,
           lastLogin: user!.lastLogin,
           createdAt: user!.createdAt
@@ -134,6 +140,46 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
   }
 };
 
+// @desc    Update code generation preferences and the default validation policy
+// @route   PUT /api/auth/preferences
+// @access  Private
+export const updatePreferences = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { generationPreferences, validationPolicy } = req.body;
+
+    const user = await User.findByIdAndUpdate(req.user.id, {
+      generationPreferences,
+      ...(validationPolicy !== undefined && { validationPolicy })
+    }, { new: true, runValidators: true });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        generationPreferences: user!.generationPreferences,
+        validationPolicy: user!.validationPolicy
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get subscription limits and remaining generation quota
+// @route   GET /api/auth/usage
+// @access  Private
+export const getQuotaUsage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const usage = await quotaService.getUsage(req.user);
+
+    res.status(200).json({
+      success: true,
+      data: usage
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Refresh token
 // @route   POST /api/auth/refresh
 // @access  Public
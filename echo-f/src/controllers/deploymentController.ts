@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from 'express';
+import Deployment, { IDeployment } from '../models/Deployment';
+import Generation from '../models/Generation';
+import deploymentService from '../services/deploymentService';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+// Loads a deployment of the current user, answering 404 when there is none
+// and 409 while a build is running
+const findDeployment = async (req: AuthRequest, res: Response, allowBuilding: boolean = false): Promise<IDeployment | null> => {
+  const deployment = await Deployment.findOne({
+    _id: req.params.id,
+    user: req.user.id
+  });
+
+  if (!deployment) {
+    res.status(404).json({
+      success: false,
+      error: 'Deployment not found'
+    });
+    return null;
+  }
+
+  if (!allowBuilding && deployment.status === 'building') {
+    res.status(409).json({
+      success: false,
+      error: 'Deployment is being built'
+    });
+    return null;
+  }
+
+  return deployment;
+};
+
+// @desc    List deployments
+// @route   GET /api/deployment
+// @access  Private
+export const getDeployments = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { user: req.user.id };
+    if (req.query.generation) filter.generation = req.query.generation;
+    if (req.query.status) filter.status = req.query.status;
+
+    const [deployments, total] = await Promise.all([
+      Deployment.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Deployment.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deployments,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get a deployment with the live state of its containers
+// @route   GET /api/deployment/:id
+// @access  Private
+export const getDeployment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deployment = await findDeployment(req, res, true);
+    if (!deployment) return;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deployment,
+        containers: await deploymentService.inspect(deployment)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Stop a deployment's containers
+// @route   POST /api/deployment/:id/stop
+// @access  Private
+export const stopDeployment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deployment = await findDeployment(req, res);
+    if (!deployment) return;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deployment: await deploymentService.stop(deployment)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Restart a deployment's containers
+// @route   POST /api/deployment/:id/restart
+// @access  Private
+export const restartDeployment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deployment = await findDeployment(req, res);
+    if (!deployment) return;
+
+    if (!deployment.containers.some(container => container.containerId)) {
+      res.status(409).json({
+        success: false,
+        error: 'Deployment has no container; redeploy it instead'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deployment: await deploymentService.restart(deployment)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Rebuild a deployment from its generation's files in the background
+// @route   POST /api/deployment/:id/redeploy
+// @access  Private
+export const redeployDeployment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deployment = await findDeployment(req, res);
+    if (!deployment) return;
+
+    const generation = await Generation.findOne({
+      _id: deployment.generation,
+      user: req.user.id
+    }).select('generatedFiles');
+
+    if (!generation || generation.generatedFiles.length === 0) {
+      res.status(409).json({
+        success: false,
+        error: 'The generation behind this deployment has no stored files'
+      });
+      return;
+    }
+
+    const claimed = await deploymentService.claimRedeploy(deployment);
+    if (!claimed) {
+      res.status(409).json({
+        success: false,
+        error: 'Deployment is being built'
+      });
+      return;
+    }
+
+    // Progress and failures are recorded on the deployment, which clients
+    // poll through GET /api/deployment/:id
+    deploymentService.redeploy(claimed, generation.toObject().generatedFiles).catch(error => {
+      console.error('Redeploy failed: - deploymentController.ts:170', error);
+    });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        deployment: claimed
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete a deployment with its containers and images
+// @route   DELETE /api/deployment/:id
+// @access  Private
+export const deleteDeployment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deployment = await findDeployment(req, res);
+    if (!deployment) return;
+
+    await deploymentService.remove(deployment);
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    next(error);
+  }
+};
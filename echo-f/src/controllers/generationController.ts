@@ -1,100 +1,202 @@
 import { Request, Response, NextFunction } from 'express';
-import Generation from '../models/Generation';
-import llmService from '../services/llmService';
-import validationService from '../services/validationService';
-import deploymentService from '../services/deploymentService';
+import mongoose from 'mongoose';
+import Generation, { IGeneration } from '../models/Generation';
+import Project from '../models/Project';
+import generationQueue from '../services/generationQueue';
+import securityScanner from '../services/securityScanner';
+import validationService, { toValidationReport } from '../services/validationService';
+import deploymentService, { ARCHIVE_FORMATS, ArchiveFormat } from '../services/deploymentService';
+import { DOWNLOAD_LINK_MAX_TTL, DOWNLOAD_LINK_TTL, isDownloadSigningConfigured, signDownload } from '../utils/downloadLinks';
+import { isRuleSuppressed, resolveValidationPolicy } from '../config/validationPolicy';
+import { notDeployableReason } from '../utils/containerDefinitions';
+import { SARIF_CONTENT_TYPE, toSarif } from '../utils/sarif';
 
 interface AuthRequest extends Request {
   user?: any;
 }
 
+// Repair attempts requested by the client, or the server default
+const resolveRepairAttempts = (requested: any): number => {
+  if (requested !== undefined && requested !== null && requested !== '') {
+    return parseInt(requested);
+  }
+  return Math.min(parseInt(process.env.GENERATION_REPAIR_ATTEMPTS || '2'), 5);
+};
+
+// Jobs are accepted immediately; clients poll GET /api/generation/:id or
+// listen for generation-updated socket events for the outcome.
+const sendAccepted = (res: Response, generation: IGeneration): void => {
+  res.status(202).json({
+    success: true,
+    data: {
+      generation: {
+        id: generation._id,
+        parent: generation.parent,
+        prompt: generation.prompt,
+        stack: generation.stack,
+        output: generation.output,
+        status: generation.status,
+        queuePosition: generationQueue.position(generation._id.toString()),
+        createdAt: generation.createdAt
+      }
+    }
+  });
+};
+
 // @desc    Generate code
 // @route   POST /api/generation
 // @access  Private
 export const generateCode = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { prompt, stack, output } = req.body;
+    const { prompt, stack, output, projectId, repairAttempts, useCache } = req.body;
     const userId = req.user.id;
 
+    // Caught before any tokens are spent
+    const notDeployable = output === 'deploy' ? notDeployableReason(stack) : null;
+    if (notDeployable) {
+      res.status(400).json({
+        success: false,
+        error: notDeployable
+      });
+      return;
+    }
+
+    if (projectId) {
+      const project = await Project.findOne({
+        _id: projectId,
+        $or: [
+          { owner: userId },
+          { collaborators: userId }
+        ]
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+        return;
+      }
+    }
+
     // Create generation record
     const generation = await Generation.create({
       user: userId,
+      project: projectId,
       prompt,
       stack,
       output,
-      status: 'generating'
+      maxRepairAttempts: resolveRepairAttempts(repairAttempts),
+      useCache: useCache !== false && useCache !== 'false',
+      status: 'pending'
     });
 
-    // Generate code using AI
-    const generationResult = await llmService.generateCode(prompt, stack, output);
+    generationQueue.enqueue(generation._id.toString());
+    sendAccepted(res, generation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Refine an existing generation with a follow-up instruction
+// @route   POST /api/generation/:id/refine
+// @access  Private
+export const refineGeneration = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { instruction, output, repairAttempts } = req.body;
 
-    // Validate generated code
-    const validationResult = await validationService.validateCode(generationResult.files, stack);
+    const parent = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
 
-    if (!validationResult.isValid) {
-      await Generation.findByIdAndUpdate(generation._id, {
-        status: 'failed',
-        error: validationResult.errors.join(', ')
+    if (!parent) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
       });
+      return;
+    }
 
+    if (parent.status !== 'completed') {
+      res.status(409).json({
+        success: false,
+        error: 'Only completed generations can be refined'
+      });
+      return;
+    }
+
+    const notDeployable = (output || parent.output) === 'deploy' ? notDeployableReason(parent.stack) : null;
+    if (notDeployable) {
       res.status(400).json({
         success: false,
-        error: 'Generated code validation failed',
-        details: validationResult
+        error: notDeployable
       });
       return;
     }
 
-    // Deploy based on output type
-    const deploymentResult = await deploymentService.deploy({
-      stack,
-      output,
-      files: generationResult.files
+    const generation = await Generation.create({
+      user: req.user.id,
+      project: parent.project,
+      parent: parent._id,
+      prompt: instruction,
+      stack: parent.stack,
+      output: output || parent.output,
+      maxRepairAttempts: resolveRepairAttempts(repairAttempts),
+      status: 'pending'
     });
 
-    // Update generation record
-    await Generation.findByIdAndUpdate(generation._id, {
-      generatedFiles: generationResult.files,
-      deploymentUrl: deploymentResult.deploymentUrl,
-      downloadUrl: deploymentResult.downloadUrl,
-      previewUrl: deploymentResult.previewUrl,
-      gitCommitHash: deploymentResult.gitCommitHash,
-      installationScript: generationResult.installationScript,
-      documentation: generationResult.documentation,
-      status: 'completed',
-      metadata: {
-        tokensUsed: 0, // Would be populated from AI service
-        generationTime: Date.now() - generation.createdAt.getTime(),
-        modelUsed: 'gpt-4' // Would be dynamic
-      }
-    });
+    generationQueue.enqueue(generation._id.toString());
+    sendAccepted(res, generation);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.status(201).json({
+// @desc    Get the refinement chain leading to a generation
+// @route   GET /api/generation/:id/history
+// @access  Private
+export const getGenerationHistory = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const history: IGeneration[] = [];
+    let currentId: mongoose.Types.ObjectId | string | undefined = req.params.id;
+
+    while (currentId) {
+      const generation: IGeneration | null = await Generation.findOne({
+        _id: currentId,
+        user: req.user.id
+      }).select('-generatedFiles -fileChanges.diff');
+
+      if (!generation) break;
+
+      history.unshift(generation);
+      currentId = generation.parent;
+    }
+
+    if (history.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    const children = await Generation.find({
+      parent: req.params.id,
+      user: req.user.id
+    })
+      .sort({ createdAt: 1 })
+      .select('_id prompt status createdAt');
+
+    res.status(200).json({
       success: true,
       data: {
-        generation: {
-          id: generation._id,
-          prompt,
-          stack,
-          output,
-          status: 'completed',
-          deploymentUrl: deploymentResult.deploymentUrl,
-          downloadUrl: deploymentResult.downloadUrl,
-          previewUrl: deploymentResult.previewUrl,
-          gitCommitHash: deploymentResult.gitCommitHash,
-          installationScript: generationResult.installationScript,
-          documentation: generationResult.documentation,
-          files: generationResult.files,
-          createdAt: generation.createdAt
-        }
+        history,
+        children
       }
     });
   } catch (error) {
-    console.error('Generation error: - generationController.ts:93', error);
-    res.status(500).json({
-      success: false,
-      error: 'Code generation failed'
-    });
+    next(error);
   }
 };
 
@@ -111,7 +213,7 @@ export const getUserGenerations = async (req: AuthRequest, res: Response, next:
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
-      .select('-generatedFiles'); // Exclude large file content
+      .select('-generatedFiles -fileChanges.diff -validation'); // Exclude large file content and reports
 
     const total = await Generation.countDocuments({ user: req.user.id });
 
@@ -152,7 +254,392 @@ export const getGenerationById = async (req: AuthRequest, res: Response, next: N
 
     res.status(200).json({
       success: true,
-      data: { generation }
+      data: {
+        generation,
+        queuePosition: generationQueue.position(generation._id.toString())
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Security findings for a generation's files (?format=sarif for SARIF 2.1.0)
+// @route   GET /api/generation/:id/security
+// @access  Private
+export const getGenerationSecurity = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    }).select('generatedFiles validationPolicy');
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    // Scanned on request so stored generations pick up new rules; rules the
+    // generation's policy suppressed stay suppressed
+    const policy = resolveValidationPolicy(generation.validationPolicy);
+    const findings = securityScanner.scan(generation.generatedFiles)
+      .filter(finding => !isRuleSuppressed(policy, finding.ruleId));
+
+    if (req.query.format === 'sarif') {
+      res.status(200)
+        .type(SARIF_CONTENT_TYPE)
+        .send(JSON.stringify(toSarif(findings, securityScanner.getRules()), null, 2));
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        findings
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The stored report together with the test runs and the policy it was
+// produced under
+const validationReport = (generation: IGeneration) => ({
+  ...generation.toObject().validation,
+  testRuns: generation.testRuns,
+  policy: generation.validationPolicy
+});
+
+// @desc    Get the validation report of a generation
+// @route   GET /api/generation/:id/validation
+// @access  Private
+export const getGenerationValidation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    }).select('validation testRuns validationPolicy');
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    if (!generation.validation?.validatedAt) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation has no validation report'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        validation: validationReport(generation)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Re-run validation against a generation's stored files
+// @route   POST /api/generation/:id/revalidate
+// @access  Private
+export const revalidateGeneration = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    }).select('stack status generatedFiles validationPolicy');
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    if (generation.status === 'pending' || generation.status === 'generating') {
+      res.status(409).json({
+        success: false,
+        error: 'Generation is still running'
+      });
+      return;
+    }
+
+    if (generation.generatedFiles.length === 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Generation has no stored files to validate'
+      });
+      return;
+    }
+
+    // Same policy as the original run, so only validator changes show up.
+    // Stored files are the redacted copies, so secrets no longer match. The
+    // generation's status is left alone; only the report is replaced.
+    const policy = resolveValidationPolicy(generation.validationPolicy);
+    const result = await validationService.validateCode(generation.toObject().generatedFiles, generation.stack, policy);
+
+    const updated = await Generation.findByIdAndUpdate(generation._id, {
+      validation: toValidationReport(result),
+      testRuns: result.testRuns
+    }, { new: true }).select('validation testRuns validationPolicy');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        validation: validationReport(updated!)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  'zip': 'application/zip',
+  'tar.gz': 'application/gzip'
+};
+
+// @desc    Download a generation's files as zip or tar.gz (?format=)
+// @route   GET /api/generation/:id/download
+// @access  Private, or public with a signed link (?expires=&signature=)
+export const downloadGeneration = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const format = (req.query.format || 'zip') as ArchiveFormat;
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of ${ARCHIVE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    // protectUnlessSigned has verified the link of requests without a user
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      ...(req.user && { user: req.user.id })
+    }).select('stack generatedFiles');
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    if (generation.generatedFiles.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation has no files to download'
+      });
+      return;
+    }
+
+    const generationId = generation._id.toString();
+    const archivePath = await deploymentService.getArchive(generationId, generation.stack, generation.toObject().generatedFiles, format);
+
+    res.type(ARCHIVE_CONTENT_TYPES[format]);
+    res.download(archivePath, `echo-f-${generation.stack}-${generationId}.${format}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a time-limited signed download link
+// @route   POST /api/generation/:id/download-link
+// @access  Private
+export const createDownloadLink = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const format: ArchiveFormat = req.body.format || 'zip';
+    const ttl = Math.min(Math.max(parseInt(req.body.expiresIn) || DOWNLOAD_LINK_TTL, 60), DOWNLOAD_LINK_MAX_TTL);
+
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of ${ARCHIVE_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    if (!isDownloadSigningConfigured()) {
+      res.status(503).json({
+        success: false,
+        error: 'Signed download links are not enabled on this server'
+      });
+      return;
+    }
+
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    }).select('_id');
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    const generationId = generation._id.toString();
+    const expires = Math.floor(Date.now() / 1000) + ttl;
+    const query = new URLSearchParams({
+      format,
+      expires: expires.toString(),
+      signature: signDownload(generationId, format, expires)
+    });
+    const baseUrl = (process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+
+    res.status(201).json({
+      success: true,
+      data: {
+        url: `${baseUrl}/api/generation/${generationId}/download?${query}`,
+        expiresAt: new Date(expires * 1000)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel a queued or running generation
+// @route   POST /api/generation/:id/cancel
+// @access  Private
+export const cancelGeneration = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const generation = await Generation.findOne({
+      _id: req.params.id,
+      user: req.user.id
+    });
+
+    if (!generation) {
+      res.status(404).json({
+        success: false,
+        error: 'Generation not found'
+      });
+      return;
+    }
+
+    if (generation.status !== 'pending' && generation.status !== 'generating') {
+      res.status(409).json({
+        success: false,
+        error: `Generation is already ${generation.status}`
+      });
+      return;
+    }
+
+    const cancelled = await generationQueue.cancel(generation._id.toString());
+
+    if (!cancelled) {
+      // Not tracked by this process (e.g. orphaned by a crash); settle the record directly
+      await Generation.findByIdAndUpdate(generation._id, {
+        status: 'cancelled',
+        error: 'Generation was cancelled'
+      });
+    }
+
+    res.status(202).json({
+      success: true,
+      data: {
+        id: generation._id,
+        // Running jobs stop at their next stage boundary
+        status: cancelled && generation.status === 'generating' ? 'cancelling' : 'cancelled'
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get token usage and cost for the user or a project
+// @route   GET /api/generation/usage
+// @access  Private
+export const getUsage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { projectId, from, to } = req.query as { projectId?: string; from?: string; to?: string };
+    const match: any = {};
+
+    if (projectId) {
+      const project = await Project.findOne({
+        _id: projectId,
+        $or: [
+          { owner: req.user.id },
+          { collaborators: req.user.id }
+        ]
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+        return;
+      }
+
+      match.project = project._id;
+    } else {
+      match.user = new mongoose.Types.ObjectId(req.user.id);
+    }
+
+    if (from || to) {
+      match.createdAt = {};
+      if (from) match.createdAt.$gte = new Date(from);
+      if (to) match.createdAt.$lte = new Date(to);
+    }
+
+    const usageFields = {
+      generations: { $sum: 1 },
+      promptTokens: { $sum: { $ifNull: ['$metadata.promptTokens', 0] } },
+      completionTokens: { $sum: { $ifNull: ['$metadata.completionTokens', 0] } },
+      totalTokens: { $sum: { $ifNull: ['$metadata.tokensUsed', 0] } },
+      cost: { $sum: { $ifNull: ['$metadata.cost', 0] } }
+    };
+
+    const [usage] = await Generation.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          totals: [{ $group: { _id: null, ...usageFields } }],
+          byModel: [
+            { $group: { _id: { provider: '$metadata.provider', model: '$metadata.modelUsed' }, ...usageFields } },
+            { $sort: { cost: -1 } }
+          ],
+          byUser: [
+            { $group: { _id: '$user', ...usageFields } },
+            { $sort: { cost: -1 } }
+          ]
+        }
+      }
+    ]);
+
+    const emptyTotals = { generations: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    const { _id, ...totals } = usage.totals[0] || { _id: null, ...emptyTotals };
+
+    res.status(200).json({
+      success: true,
+      data: {
+        scope: projectId ? { project: projectId } : { user: req.user.id },
+        totals,
+        byModel: usage.byModel.map(({ _id, ...entry }: any) => ({ provider: _id.provider, model: _id.model, ...entry })),
+        ...(projectId && {
+          byUser: usage.byUser.map(({ _id, ...entry }: any) => ({ user: _id, ...entry }))
+        })
+      }
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import http from 'http';
+import previewService from '../services/previewService';
+import { IPreview } from '../models/Preview';
+
+const HOP_BY_HOP_HEADERS = [
+  'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer', 'transfer-encoding', 'upgrade'
+];
+const PROXY_TIMEOUT_MS = 30000;
+
+// Generated code is served by the API, so it is sandboxed into an opaque
+// origin: it may run scripts but cannot read the API's cookies or storage,
+// make same-origin requests to the API or navigate the embedding page, and
+// only the frontend may frame it. Previews that rely on localStorage or
+// cookies of their own need PREVIEW_BASE_URL on a separate host name.
+const setSandboxHeaders = (res: Response): void => {
+  const frameAncestors = process.env.CORS_ORIGIN || 'http://localhost:3000';
+  res.setHeader('Content-Security-Policy', `sandbox allow-scripts allow-forms allow-popups allow-modals; frame-ancestors 'self' ${frameAncestors}`);
+  res.removeHeader('X-Frame-Options');
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+const proxyToServer = (req: Request, res: Response, preview: IPreview, prefix: string): void => {
+  const headers = { ...req.headers };
+  for (const name of [...HOP_BY_HOP_HEADERS, 'authorization']) delete headers[name];
+
+  const upstream = http.request({
+    host: '127.0.0.1',
+    port: preview.hostPort,
+    method: req.method,
+    path: req.url,
+    headers: {
+      ...headers,
+      host: `127.0.0.1:${preview.hostPort}`,
+      'x-forwarded-host': req.headers.host,
+      'x-forwarded-proto': req.protocol,
+      'x-forwarded-prefix': prefix
+    }
+  }, upstreamRes => {
+    const responseHeaders = { ...upstreamRes.headers };
+    for (const name of [...HOP_BY_HOP_HEADERS, 'content-security-policy', 'x-frame-options']) delete responseHeaders[name];
+
+    // Root-relative redirects would leave the preview
+    const location = responseHeaders.location;
+    if (location && location.startsWith('/') && !location.startsWith('//')) {
+      responseHeaders.location = `${prefix}${location.slice(1)}`;
+    }
+
+    res.writeHead(upstreamRes.statusCode || 502, responseHeaders);
+    upstreamRes.pipe(res);
+  });
+
+  upstream.setTimeout(PROXY_TIMEOUT_MS, () => upstream.destroy(new Error('Preview server timed out')));
+  upstream.on('error', () => {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.status(502).json({
+      success: false,
+      error: 'Preview server is not responding; it may still be starting'
+    });
+  });
+
+  req.pipe(upstream);
+};
+
+// @desc    Serve a preview: static files or the proxied preview server
+// @route   ALL /preview/:token/*
+// @access  Public (the token grants access to the generation owner's preview)
+export const servePreview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.params;
+    const preview = await previewService.authorize(token);
+    const prefix = `/preview/${token}/`;
+
+    // Relative URLs in the page only resolve below a trailing slash
+    const [pathname, query] = req.originalUrl.split('?');
+    if (!pathname.endsWith('/') && req.path === '/') {
+      res.redirect(301, `${pathname}/${query !== undefined ? `?${query}` : ''}`);
+      return;
+    }
+
+    setSandboxHeaders(res);
+
+    if (preview.kind === 'server') {
+      proxyToServer(req, res, preview, prefix);
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.status(405).json({
+        success: false,
+        error: 'Static previews only serve GET requests'
+      });
+      return;
+    }
+
+    const file = await previewService.resolveFile(preview, req.path);
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found in preview'
+      });
+      return;
+    }
+
+    res.sendFile(file);
+  } catch (error) {
+    next(error);
+  }
+};
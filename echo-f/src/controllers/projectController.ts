@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import fs from 'fs-extra';
+import Project from '../models/Project';
+import User from '../models/User';
+import gitService from '../services/gitService';
+import { resolveValidationPolicy } from '../config/validationPolicy';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+const findAccessibleProject = (projectId: string, userId: string) => {
+  return Project.findOne({
+    _id: projectId,
+    $or: [
+      { owner: userId },
+      { collaborators: userId }
+    ]
+  }).select('_id');
+};
+
+// @desc    Get a project's validation policy
+// @route   GET /api/projects/:id/validation-policy
+// @access  Private
+export const getValidationPolicy = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const [project, user] = await Promise.all([
+      Project.findOne({
+        _id: req.params.id,
+        $or: [
+          { owner: req.user.id },
+          { collaborators: req.user.id }
+        ]
+      }).select('validationPolicy'),
+      User.findById(req.user.id).select('validationPolicy')
+    ]);
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+      return;
+    }
+
+    // The effective policy depends on who generates: the project's settings
+    // are applied over the requesting user's default
+    res.status(200).json({
+      success: true,
+      data: {
+        validationPolicy: project.validationPolicy || null,
+        effective: resolveValidationPolicy(user?.validationPolicy, project.validationPolicy)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Replace a project's validation policy (null clears it)
+// @route   PUT /api/projects/:id/validation-policy
+// @access  Private/Owner
+export const updateValidationPolicy = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { validationPolicy } = req.body;
+
+    const project = await Project.findOneAndUpdate(
+      { _id: req.params.id, owner: req.user.id },
+      validationPolicy ? { validationPolicy } : { $unset: { validationPolicy: 1 } },
+      { new: true, runValidators: true }
+    );
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        validationPolicy: project.validationPolicy || null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    List the commits in a project's repository, newest first
+// @route   GET /api/projects/:id/history
+// @access  Private
+export const getProjectHistory = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const project = await findAccessibleProject(req.params.id, req.user.id);
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+      return;
+    }
+
+    const { commits, total } = await gitService.history(gitService.repositoryFor(project.id), {
+      limit,
+      skip: (page - 1) * limit
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        commits,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Diff two commits of a project's repository
+// @route   GET /api/projects/:id/history/diff?from=&to=
+// @access  Private
+export const getProjectDiff = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { from, to } = req.query as { from?: string; to?: string };
+
+    if (!from || !to) {
+      res.status(400).json({
+        success: false,
+        error: 'Please provide the from and to commits'
+      });
+      return;
+    }
+
+    const project = await findAccessibleProject(req.params.id, req.user.id);
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+      return;
+    }
+
+    const diff = await gitService.diff(gitService.repositoryFor(project.id), from, to);
+
+    res.status(200).json({
+      success: true,
+      data: diff
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Export a project's repository as a git bundle
+// @route   GET /api/projects/:id/history/bundle
+// @access  Private
+export const exportProjectBundle = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const project = await findAccessibleProject(req.params.id, req.user.id);
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        error: 'Project not found'
+      });
+      return;
+    }
+
+    const bundlePath = await gitService.bundle(gitService.repositoryFor(project.id));
+
+    if (!bundlePath) {
+      res.status(404).json({
+        success: false,
+        error: 'Project has no history yet'
+      });
+      return;
+    }
+
+    // `git clone <file>` checks out the latest generation
+    res.type('application/x-git-bundle');
+    res.download(bundlePath, `echo-f-project-${project.id}.bundle`, () => {
+      fs.remove(bundlePath).catch(() => undefined);
+    });
+  } catch (error) {
+    next(error);
+  }
+};
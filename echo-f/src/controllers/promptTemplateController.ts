@@ -0,0 +1,210 @@
+import { Request, Response, NextFunction } from 'express';
+import PromptTemplate from '../models/PromptTemplate';
+import Generation from '../models/Generation';
+import promptTemplateService, { DEFAULT_TEMPLATE, TEMPLATE_VARIABLES } from '../services/promptTemplateService';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+// Templates that drop the output format instructions produce responses the
+// parser cannot read, so they are rejected up front.
+const REQUIRED_VARIABLE = '{{outputFormat}}';
+
+// @desc    List prompt templates
+// @route   GET /api/prompt-templates
+// @access  Private/Admin
+export const getTemplates = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const filter: any = {};
+    if (req.query.stack) filter.stack = req.query.stack;
+    if (req.query.output) filter.output = req.query.output;
+
+    const templates = await PromptTemplate.find(filter).sort({ stack: 1, output: 1, version: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        templates,
+        builtin: {
+          version: 0,
+          body: DEFAULT_TEMPLATE
+        },
+        variables: TEMPLATE_VARIABLES
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get a prompt template with usage statistics
+// @route   GET /api/prompt-templates/:id
+// @access  Private/Admin
+export const getTemplate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const template = await PromptTemplate.findById(req.params.id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+      return;
+    }
+
+    // Outcome counts let admins compare prompt revisions
+    const stats = await Generation.aggregate([
+      { $match: { promptTemplate: template._id } },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        template,
+        stats: stats.reduce((acc: { [key: string]: number }, entry: any) => ({ ...acc, [entry._id]: entry.count }), {})
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a new template version
+// @route   POST /api/prompt-templates
+// @access  Private/Admin
+export const createTemplate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { stack, output, body, notes, activate } = req.body;
+
+    if (typeof body !== 'string' || !body.includes(REQUIRED_VARIABLE)) {
+      res.status(400).json({
+        success: false,
+        error: `Template body must include ${REQUIRED_VARIABLE}`
+      });
+      return;
+    }
+
+    let template;
+    try {
+      template = await promptTemplateService.createVersion({ stack, output, body, notes, createdBy: req.user.id });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      res.status(409).json({
+        success: false,
+        error: `Other versions of the ${stack}/${output} template are being created; try again`
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        template: activate ? await promptTemplateService.activate(template) : template
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Edit a template version that has never been activated
+// @route   PUT /api/prompt-templates/:id
+// @access  Private/Admin
+export const updateTemplate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const template = await PromptTemplate.findById(req.params.id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+      return;
+    }
+
+    // Generations reference versions by number, so a version that has been
+    // live must stay as it was; changes go into a new version instead.
+    if (template.activatedAt) {
+      res.status(409).json({
+        success: false,
+        error: 'Template version has already been activated; create a new version instead'
+      });
+      return;
+    }
+
+    const { body, notes } = req.body;
+
+    if (body !== undefined) {
+      if (typeof body !== 'string' || !body.includes(REQUIRED_VARIABLE)) {
+        res.status(400).json({
+          success: false,
+          error: `Template body must include ${REQUIRED_VARIABLE}`
+        });
+        return;
+      }
+      template.body = body;
+    }
+    if (notes !== undefined) template.notes = notes;
+
+    await template.save();
+
+    res.status(200).json({
+      success: true,
+      data: { template }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Make a template version the active one for its stack and output
+// @route   POST /api/prompt-templates/:id/activate
+// @access  Private/Admin
+export const activateTemplate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const template = await PromptTemplate.findById(req.params.id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        template: await promptTemplateService.activate(template)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Deactivate a template version, falling back to the next match
+// @route   POST /api/prompt-templates/:id/deactivate
+// @access  Private/Admin
+export const deactivateTemplate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const template = await PromptTemplate.findByIdAndUpdate(req.params.id, { isActive: false }, { new: true });
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        error: 'Prompt template not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { template }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,7 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import User from '../models/User';
+import { verifyDownloadSignature } from '../utils/downloadLinks';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -62,3 +63,27 @@ export const authorize = (...roles: string[]) => {
     next();
   };
 };
+
+// For download routes that also accept signed links: requests carrying a
+// signature must match the generation, format and expiry it was issued for;
+// all others need a bearer token. Signed requests have no req.user.
+export const protectUnlessSigned = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (req.query.signature !== undefined) {
+    const { format = 'zip', expires, signature } = req.query;
+    const valid = typeof format === 'string' && typeof expires === 'string' && typeof signature === 'string'
+      && verifyDownloadSignature(req.params.id, format, expires, signature);
+
+    if (!valid) {
+      res.status(401).json({
+        success: false,
+        error: 'Download link is invalid or has expired'
+      });
+      return;
+    }
+
+    next();
+    return;
+  }
+
+  await protect(req, res, next);
+};
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import quotaService from '../services/quotaService';
+import { enforceQuota } from './quota';
+
+jest.mock('../services/quotaService', () => ({
+  __esModule: true,
+  default: { getUsage: jest.fn(), reserve: jest.fn(), release: jest.fn() }
+}));
+
+const quota = quotaService as jest.Mocked<typeof quotaService>;
+
+const freeUsage = (remaining: number) => ({
+  subscription: 'free',
+  limits: { generationsPerDay: 10, allowedStacks: ['react'], allowedOutputs: ['preview'], maxPromptLength: 100 },
+  generationsToday: 10 - remaining,
+  remaining,
+  resetsAt: new Date('2024-05-11T00:00:00Z')
+});
+
+const response = () => {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+const request = (body: any): any => ({ user: { _id: 'user-1', subscription: 'free' }, body });
+
+describe('enforceQuota', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    quota.getUsage.mockResolvedValue(freeUsage(5) as any);
+    quota.reserve.mockResolvedValue(true);
+    quota.release.mockResolvedValue();
+  });
+
+  it('reserves a generation and keeps it for an accepted job', async () => {
+    const res = response();
+    const next = jest.fn();
+
+    await enforceQuota(request({ prompt: 'Build a page', stack: 'react', output: 'preview' }), res, next);
+    res.statusCode = 202;
+    res.emit('finish');
+
+    expect(next).toHaveBeenCalledWith();
+    expect(quota.reserve).toHaveBeenCalled();
+    expect(quota.release).not.toHaveBeenCalled();
+  });
+
+  it('gives the reservation back when the request is not accepted', async () => {
+    const res = response();
+
+    await enforceQuota(request({ prompt: 'Build a page' }), res, jest.fn());
+    res.statusCode = 400;
+    res.emit('finish');
+
+    expect(quota.release).toHaveBeenCalledWith('user-1');
+  });
+
+  it('answers 429 without reserving when the quota is used up', async () => {
+    quota.getUsage.mockResolvedValue(freeUsage(0) as any);
+    const res = response();
+    const next = jest.fn();
+
+    await enforceQuota(request({ prompt: 'Build a page' }), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(quota.reserve).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 when a concurrent request took the last generation', async () => {
+    quota.reserve.mockResolvedValue(false);
+    const res = response();
+
+    await enforceQuota(request({ prompt: 'Build a page' }), res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(429);
+  });
+
+  it.each([
+    ['stack', { stack: 'angular' }, 403],
+    ['output', { output: 'deploy' }, 403],
+    ['prompt length', { prompt: 'x'.repeat(101) }, 400]
+  ])('rejects a request outside the plan\'s %s before reserving', async (_, body, status) => {
+    const res = response();
+
+    await enforceQuota(request(body), res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(status);
+    expect(quota.reserve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import quotaService from '../services/quotaService';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+// Enforces the user's subscription limits on generation requests and
+// reserves one generation of the daily quota. The prompt is read from
+// `prompt` or, for refinements, `instruction`; stack and output are only
+// checked when present in the body.
+export const enforceQuota = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const usage = await quotaService.getUsage(req.user);
+    const { limits, subscription } = usage;
+    const { stack, output } = req.body;
+    const prompt: string = req.body.prompt ?? req.body.instruction ?? '';
+
+    if (stack && !limits.allowedStacks.includes(stack)) {
+      res.status(403).json({
+        success: false,
+        error: `The ${stack} stack is not available on the ${subscription} plan`
+      });
+      return;
+    }
+
+    if (output && !limits.allowedOutputs.includes(output)) {
+      res.status(403).json({
+        success: false,
+        error: `The ${output} output is not available on the ${subscription} plan`
+      });
+      return;
+    }
+
+    if (prompt.length > limits.maxPromptLength) {
+      res.status(400).json({
+        success: false,
+        error: `Prompt can not be more than ${limits.maxPromptLength} characters on the ${subscription} plan`
+      });
+      return;
+    }
+
+    if (usage.remaining === 0 || !await quotaService.reserve(req.user)) {
+      res.status(429).json({
+        success: false,
+        error: `Daily generation limit of ${limits.generationsPerDay} reached for the ${subscription} plan`,
+        resetsAt: usage.resetsAt
+      });
+      return;
+    }
+
+    // Only an accepted job keeps its reservation
+    res.on('finish', () => {
+      if (res.statusCode !== 202) {
+        quotaService.release(req.user._id).catch(error => {
+          console.error('Failed to release quota reservation: - quota.ts:56', error.message);
+        });
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
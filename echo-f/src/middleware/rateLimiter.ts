@@ -10,3 +10,16 @@ export const rateLimiter = rateLimit({
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
 });
+
+// A preview page loads all of its assets through the API, so previews get
+// their own, larger budget instead of sharing the API's
+export const previewRateLimiter = rateLimit({
+  windowMs: (parseInt(process.env.RATE_LIMIT_WINDOW || '15')) * 60 * 1000,
+  max: parseInt(process.env.PREVIEW_RATE_LIMIT_MAX_REQUESTS || '1000'),
+  message: {
+    success: false,
+    error: 'Too many preview requests from this IP, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+
+// Goes after a route's express-validator chains, which only record their
+// failures, and answers 400 with every failed rule
+export const validate = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+
+  if (!errors.isEmpty()) {
+    const messages = errors.array().map(error =>
+      error.msg === 'Invalid value' && error.type === 'field' ? `Invalid value for ${error.path}` : String(error.msg)
+    );
+
+    res.status(400).json({
+      success: false,
+      error: [...new Set(messages)].join(', ')
+    });
+    return;
+  }
+
+  next();
+};
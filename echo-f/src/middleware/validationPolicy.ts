@@ -0,0 +1,16 @@
+import { body } from 'express-validator';
+import { SECURITY_SEVERITIES, VALIDATION_CHECKS } from '../config/validationPolicy';
+
+// Rules for a validation policy sent as `validationPolicy` in the body.
+// Every field is optional; unset fields inherit from the layer below.
+export const validationPolicyRules = [
+  body('validationPolicy').optional({ nullable: true }).isObject().withMessage('validationPolicy must be an object'),
+  ...VALIDATION_CHECKS.map(check =>
+    body(`validationPolicy.checks.${check}`).optional().isBoolean().withMessage(`checks.${check} must be a boolean`)
+  ),
+  body('validationPolicy.blockingSeverities').optional().isArray().withMessage('blockingSeverities must be an array'),
+  body('validationPolicy.blockingSeverities.*').isIn(SECURITY_SEVERITIES).withMessage(`Severities must be one of ${SECURITY_SEVERITIES.join(', ')}`),
+  body('validationPolicy.suppressedRules').optional().isArray({ max: 100 }).withMessage('suppressedRules must be an array of at most 100 rule ids'),
+  body('validationPolicy.suppressedRules.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Rule ids must be between 1 and 100 characters'),
+  body('validationPolicy.failOnWarnings').optional().isBoolean().withMessage('failOnWarnings must be a boolean')
+];
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDeployment extends Document {
+  deploymentId: string;
+  generation: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  stack: string;
+  // One per service of the stack, in start order
+  containers: {
+    service: string;
+    imageTag: string;
+    containerId?: string;
+  }[];
+  // Incremented on every redeploy; part of the image tags
+  revision: number;
+  // Published ports; services that are not exposed have none
+  ports: {
+    service: string;
+    containerPort: number;
+    hostPort: number;
+  }[];
+  url?: string;
+  status: 'building' | 'running' | 'stopped' | 'failed';
+  error?: string;
+  startedAt?: Date;
+  stoppedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeploymentSchema: Schema<IDeployment> = new Schema({
+  deploymentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  generation: {
+    type: Schema.Types.ObjectId,
+    ref: 'Generation',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  stack: {
+    type: String,
+    required: true
+  },
+  containers: [{
+    service: {
+      type: String,
+      required: true
+    },
+    imageTag: {
+      type: String,
+      required: true
+    },
+    containerId: String
+  }],
+  revision: {
+    type: Number,
+    default: 1
+  },
+  ports: [{
+    service: String,
+    containerPort: Number,
+    hostPort: Number
+  }],
+  url: String,
+  status: {
+    type: String,
+    enum: ['building', 'running', 'stopped', 'failed'],
+    default: 'building'
+  },
+  error: String,
+  startedAt: Date,
+  stoppedAt: Date
+}, {
+  timestamps: true
+});
+
+DeploymentSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IDeployment>('Deployment', DeploymentSchema);
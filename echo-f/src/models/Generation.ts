@@ -1,8 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ValidationPolicy } from '../config/validationPolicy';
+import { ValidationPolicySchema } from './ValidationPolicy';
 
 export interface IGeneration extends Document {
   user: mongoose.Types.ObjectId;
   project?: mongoose.Types.ObjectId;
+  parent?: mongoose.Types.ObjectId;
+  promptTemplate?: mongoose.Types.ObjectId;
+  promptTemplateVersion?: number;
   prompt: string;
   stack: string;
   output: 'preview' | 'deploy' | 'download';
@@ -11,18 +16,92 @@ export interface IGeneration extends Document {
     content: string;
     language: string;
   }[];
+  fileChanges: {
+    filename: string;
+    status: 'added' | 'modified' | 'deleted';
+    additions: number;
+    deletions: number;
+    diff: string;
+  }[];
+  maxRepairAttempts: number;
+  useCache: boolean;
+  repairAttempts: {
+    attempt: number;
+    errors: string[];
+    files: string[];
+    createdAt: Date;
+  }[];
+  testRuns: {
+    directory: string;
+    framework: 'npm' | 'pytest';
+    status: 'passed' | 'failed' | 'error' | 'timeout';
+    passed: number;
+    failed: number;
+    skipped: number;
+    exitCode?: number;
+    durationMs: number;
+    output: string;
+  }[];
+  // Secrets found in the generated files; high-entropy strings are listed
+  // with redacted: false and left in place
+  redactions: {
+    filename: string;
+    line: number;
+    column: number;
+    kind: string;
+    redacted: boolean;
+  }[];
+  // Policy the generated code was validated against
+  validationPolicy?: ValidationPolicy;
+  // Latest validation report; validatedAt is unset until validation has run
+  validation: {
+    isValid?: boolean;
+    errors: string[];
+    warnings: string[];
+    securityIssues: string[];
+    securityFindings: {
+      ruleId: string;
+      severity: 'error' | 'warning' | 'note';
+      file: string;
+      line: number;
+      column: number;
+      message: string;
+      fix: string;
+    }[];
+    diagnostics: {
+      file: string;
+      line: number;
+      column: number;
+      message: string;
+      source: string;
+    }[];
+    validatedAt?: Date;
+  };
   deploymentUrl?: string;
   downloadUrl?: string;
   previewUrl?: string;
+  previewExpiresAt?: Date;
+  // Why the preview, download or deployment could not be created; the
+  // generated files are kept and the generation still completes
+  deploymentError?: string;
+  // Repository the generation was committed to and the commit's SHA
+  gitRepository?: string;
   gitCommitHash?: string;
   installationScript?: string;
   documentation?: string;
-  status: 'pending' | 'generating' | 'completed' | 'failed';
+  status: 'pending' | 'generating' | 'completed' | 'failed' | 'cancelled';
   error?: string;
   metadata: {
     tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    cost?: number;
     generationTime?: number;
+    provider?: string;
     modelUsed?: string;
+    cacheHit?: boolean;
+    cacheKey?: string;
+    cachedFrom?: mongoose.Types.ObjectId;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -38,6 +117,15 @@ const GenerationSchema: Schema<IGeneration> = new Schema({
     type: Schema.Types.ObjectId,
     ref: 'Project'
   },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'Generation'
+  },
+  promptTemplate: {
+    type: Schema.Types.ObjectId,
+    ref: 'PromptTemplate'
+  },
+  promptTemplateVersion: Number,
   prompt: {
     type: String,
     required: [true, 'Please provide a generation prompt'],
@@ -67,22 +155,118 @@ const GenerationSchema: Schema<IGeneration> = new Schema({
       required: true
     }
   }],
+  fileChanges: [{
+    filename: String,
+    status: {
+      type: String,
+      enum: ['added', 'modified', 'deleted']
+    },
+    additions: Number,
+    deletions: Number,
+    diff: String
+  }],
+  maxRepairAttempts: {
+    type: Number,
+    min: 0,
+    max: 5,
+    default: 0
+  },
+  useCache: {
+    type: Boolean,
+    default: true
+  },
+  repairAttempts: [{
+    attempt: Number,
+    errors: [String],
+    files: [String],
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  testRuns: [{
+    directory: String,
+    framework: {
+      type: String,
+      enum: ['npm', 'pytest']
+    },
+    status: {
+      type: String,
+      enum: ['passed', 'failed', 'error', 'timeout']
+    },
+    passed: Number,
+    failed: Number,
+    skipped: Number,
+    exitCode: Number,
+    durationMs: Number,
+    output: String
+  }],
+  redactions: [{
+    filename: String,
+    line: Number,
+    column: Number,
+    kind: String,
+    redacted: {
+      type: Boolean,
+      default: true
+    }
+  }],
+  validationPolicy: ValidationPolicySchema,
+  validation: {
+    isValid: Boolean,
+    errors: [String],
+    warnings: [String],
+    securityIssues: [String],
+    securityFindings: [{
+      ruleId: String,
+      severity: {
+        type: String,
+        enum: ['error', 'warning', 'note']
+      },
+      file: String,
+      line: Number,
+      column: Number,
+      message: String,
+      fix: String
+    }],
+    diagnostics: [{
+      file: String,
+      line: Number,
+      column: Number,
+      message: String,
+      source: String
+    }],
+    validatedAt: Date
+  },
   deploymentUrl: String,
   downloadUrl: String,
   previewUrl: String,
+  previewExpiresAt: Date,
+  deploymentError: String,
+  gitRepository: String,
   gitCommitHash: String,
   installationScript: String,
   documentation: String,
   status: {
     type: String,
-    enum: ['pending', 'generating', 'completed', 'failed'],
+    enum: ['pending', 'generating', 'completed', 'failed', 'cancelled'],
     default: 'pending'
   },
   error: String,
   metadata: {
     tokensUsed: Number,
+    promptTokens: Number,
+    completionTokens: Number,
+    cost: Number,
     generationTime: Number,
-    modelUsed: String
+    provider: String,
+    modelUsed: String,
+    cacheHit: Boolean,
+    cacheKey: String,
+    cachedFrom: {
+      type: Schema.Types.ObjectId,
+      ref: 'Generation'
+    }
   }
 }, {
   timestamps: true
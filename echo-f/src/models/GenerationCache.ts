@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IGenerationCache extends Document {
+  key: string;
+  stack: string;
+  output: string;
+  promptTemplateVersion: number;
+  files: {
+    filename: string;
+    content: string;
+    language: string;
+  }[];
+  documentation?: string;
+  installationScript?: string;
+  provider?: string;
+  modelUsed?: string;
+  sourceGeneration: mongoose.Types.ObjectId;
+  hits: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GenerationCacheSchema: Schema<IGenerationCache> = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  stack: {
+    type: String,
+    required: true
+  },
+  output: {
+    type: String,
+    required: true
+  },
+  promptTemplateVersion: {
+    type: Number,
+    required: true
+  },
+  files: [{
+    filename: {
+      type: String,
+      required: true
+    },
+    content: {
+      type: String,
+      required: true
+    },
+    language: {
+      type: String,
+      required: true
+    }
+  }],
+  documentation: String,
+  installationScript: String,
+  provider: String,
+  modelUsed: String,
+  sourceGeneration: {
+    type: Schema.Types.ObjectId,
+    ref: 'Generation',
+    required: true
+  },
+  hits: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB removes entries once expiresAt has passed
+GenerationCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IGenerationCache>('GenerationCache', GenerationCacheSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPreview extends Document {
+  previewId: string;
+  generation: mongoose.Types.ObjectId;
+  // Owner of the generation; only they are issued the preview URL
+  user: mongoose.Types.ObjectId;
+  stack: string;
+  // static: files served by the API; server: a container behind the proxy
+  kind: 'static' | 'server';
+  // Directory served for static previews, relative to the preview workspace
+  root?: string;
+  containerId?: string;
+  hostPort?: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PreviewSchema: Schema<IPreview> = new Schema({
+  previewId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  generation: {
+    type: Schema.Types.ObjectId,
+    ref: 'Generation',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  stack: {
+    type: String,
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['static', 'server'],
+    required: true
+  },
+  root: String,
+  containerId: String,
+  hostPort: Number,
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+PreviewSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<IPreview>('Preview', PreviewSchema);
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ValidationPolicyOverrides } from '../config/validationPolicy';
+import { ValidationPolicySchema } from './ValidationPolicy';
 
 export interface IProject extends Document {
   name: string;
@@ -10,6 +12,7 @@ export interface IProject extends Document {
   tags: string[];
   githubUrl?: string;
   deploymentUrl?: string;
+  validationPolicy?: ValidationPolicyOverrides;
   lastModified: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -59,6 +62,7 @@ const ProjectSchema: Schema<IProject> = new Schema({
   deploymentUrl: {
     type: String
   },
+  validationPolicy: ValidationPolicySchema,
   lastModified: {
     type: Date,
     default: Date.now
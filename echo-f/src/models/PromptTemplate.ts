@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPromptTemplate extends Document {
+  stack: string;
+  output: string;
+  version: number;
+  body: string;
+  notes?: string;
+  isActive: boolean;
+  activatedAt?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptTemplateSchema: Schema<IPromptTemplate> = new Schema({
+  stack: {
+    type: String,
+    required: [true, 'Please specify the technology stack'],
+    enum: ['*', 'react', 'vue', 'angular', 'node', 'python', 'html-css-js', 'react-native', 'electron', 'node-react-fullstack']
+  },
+  output: {
+    type: String,
+    required: [true, 'Please specify the output type'],
+    enum: ['*', 'preview', 'deploy', 'download']
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  body: {
+    type: String,
+    required: [true, 'Please provide the template body'],
+    maxlength: [20000, 'Template can not be more than 20000 characters']
+  },
+  notes: {
+    type: String,
+    maxlength: [500, 'Notes can not be more than 500 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: false
+  },
+  activatedAt: Date,
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+PromptTemplateSchema.index({ stack: 1, output: 1, version: 1 }, { unique: true });
+
+export default mongoose.model<IPromptTemplate>('PromptTemplate', PromptTemplateSchema);
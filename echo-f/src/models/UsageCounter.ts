@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IUsageCounter extends Document {
+  user: mongoose.Types.ObjectId;
+  // Start of the UTC day the generations count against
+  day: Date;
+  generations: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UsageCounterSchema: Schema<IUsageCounter> = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  day: {
+    type: Date,
+    required: true
+  },
+  generations: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// One counter per user and day; reservations rely on this being unique
+UsageCounterSchema.index({ user: 1, day: 1 }, { unique: true });
+// Quotas are daily, so old counters are of no further use
+UsageCounterSchema.index({ day: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export default mongoose.model<IUsageCounter>('UsageCounter', UsageCounterSchema);
@@ -1,12 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ValidationPolicyOverrides } from '../config/validationPolicy';
+import { ValidationPolicySchema } from './ValidationPolicy';
 
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
   role: 'user' | 'admin';
+  subscription: 'free' | 'pro' | 'enterprise';
   avatar?: string;
+  generationPreferences?: string;
+  // Default for the user's generations; project policies override it
+  validationPolicy?: ValidationPolicyOverrides;
   isEmailVerified: boolean;
   emailVerificationToken?: string;
   passwordResetToken?: string;
@@ -46,9 +52,19 @@ const UserSchema: Schema<IUser> = new Schema({
     enum: ['user', 'admin'],
     default: 'user'
   },
+  subscription: {
+    type: String,
+    enum: ['free', 'pro', 'enterprise'],
+    default: 'free'
+  },
   avatar: {
     type: String
   },
+  generationPreferences: {
+    type: String,
+    maxlength: [1000, 'Preferences can not be more than 1000 characters']
+  },
+  validationPolicy: ValidationPolicySchema,
   isEmailVerified: {
     type: Boolean,
     default: false
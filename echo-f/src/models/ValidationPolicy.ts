@@ -0,0 +1,21 @@
+import { Schema } from 'mongoose';
+import { SECURITY_SEVERITIES, VALIDATION_CHECKS } from '../config/validationPolicy';
+
+// Embedded in users (their default) and projects. Fields are left unset
+// rather than defaulted so that they inherit from the layer below.
+const checks = Object.fromEntries(VALIDATION_CHECKS.map(check => [check, Boolean]));
+
+export const ValidationPolicySchema = new Schema({
+  checks,
+  blockingSeverities: {
+    type: [{ type: String, enum: SECURITY_SEVERITIES }],
+    default: undefined
+  },
+  suppressedRules: {
+    type: [{ type: String, trim: true, maxlength: [100, 'Rule ids can not be more than 100 characters'] }],
+    default: undefined
+  },
+  failOnWarnings: Boolean
+}, {
+  _id: false
+});
@@ -1,7 +1,18 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { register, login, getProfile, refreshToken, forgotPassword, resetPassword } from '../controllers/authController';
+import {
+  register,
+  login,
+  getProfile,
+  updatePreferences,
+  getQuotaUsage,
+  refreshToken,
+  forgotPassword,
+  resetPassword
+} from '../controllers/authController';
 import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { validationPolicyRules } from '../middleware/validationPolicy';
 
 const router = express.Router();
 
@@ -18,14 +29,19 @@ const loginValidation = [
 ];
 
 // Routes
-router.post('/register', registerValidation, register);
-router.post('/login', loginValidation, login);
+router.post('/register', registerValidation, validate, register);
+router.post('/login', loginValidation, validate, login);
 router.get('/profile', protect, getProfile);
+router.put('/preferences', protect, [
+  body('generationPreferences').optional().isString().isLength({ max: 1000 }),
+  ...validationPolicyRules
+], validate, updatePreferences);
+router.get('/usage', protect, getQuotaUsage);
 router.post('/refresh', refreshToken);
-router.post('/forgot-password', [body('email').isEmail()], forgotPassword);
+router.post('/forgot-password', [body('email').isEmail()], validate, forgotPassword);
 router.post('/reset-password', [
   body('token').exists(),
   body('password').isLength({ min: 6 })
-], resetPassword);
+], validate, resetPassword);
 
 export default router;
@@ -0,0 +1,36 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import {
+  getDeployments,
+  getDeployment,
+  stopDeployment,
+  restartDeployment,
+  redeployDeployment,
+  deleteDeployment
+} from '../controllers/deploymentController';
+import { protect } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = express.Router();
+
+// Validation rules
+const listValidation = [
+  query('generation').optional().isMongoId().withMessage('Invalid generation id'),
+  query('status').optional().isIn(['building', 'running', 'stopped', 'failed']).withMessage('Invalid deployment status')
+];
+
+const idValidation = [
+  param('id').isMongoId().withMessage('Invalid deployment id')
+];
+
+// Routes
+router.use(protect);
+
+router.get('/', listValidation, validate, getDeployments);
+router.get('/:id', idValidation, validate, getDeployment);
+router.post('/:id/stop', idValidation, validate, stopDeployment);
+router.post('/:id/restart', idValidation, validate, restartDeployment);
+router.post('/:id/redeploy', idValidation, validate, redeployDeployment);
+router.delete('/:id', idValidation, validate, deleteDeployment);
+
+export default router;
@@ -1,7 +1,22 @@
 import express from 'express';
-import { body } from 'express-validator';
-import { generateCode, getUserGenerations, getGenerationById } from '../controllers/generationController';
-import { protect } from '../middleware/auth';
+import { body, query } from 'express-validator';
+import {
+  generateCode,
+  getUserGenerations,
+  getGenerationById,
+  getUsage,
+  refineGeneration,
+  getGenerationHistory,
+  cancelGeneration,
+  getGenerationSecurity,
+  getGenerationValidation,
+  revalidateGeneration,
+  downloadGeneration,
+  createDownloadLink
+} from '../controllers/generationController';
+import { protect, protectUnlessSigned } from '../middleware/auth';
+import { enforceQuota } from '../middleware/quota';
+import { validate } from '../middleware/validate';
 
 const router = express.Router();
 
@@ -9,12 +24,45 @@ const router = express.Router();
 const generationValidation = [
   body('prompt').trim().isLength({ min: 10, max: 2000 }).withMessage('Prompt must be between 10 and 2000 characters'),
   body('stack').isIn(['react', 'vue', 'angular', 'node', 'python', 'html-css-js', 'react-native', 'electron', 'node-react-fullstack']).withMessage('Invalid technology stack'),
-  body('output').isIn(['preview', 'deploy', 'download']).withMessage('Invalid output type')
+  body('output').isIn(['preview', 'deploy', 'download']).withMessage('Invalid output type'),
+  body('projectId').optional().isMongoId().withMessage('Invalid project id'),
+  body('repairAttempts').optional().isInt({ min: 0, max: 5 }).withMessage('repairAttempts must be between 0 and 5'),
+  body('useCache').optional().isBoolean().withMessage('useCache must be a boolean')
+];
+
+const refineValidation = [
+  body('instruction').trim().isLength({ min: 3, max: 2000 }).withMessage('Instruction must be between 3 and 2000 characters'),
+  body('output').optional().isIn(['preview', 'deploy', 'download']).withMessage('Invalid output type'),
+  body('repairAttempts').optional().isInt({ min: 0, max: 5 }).withMessage('repairAttempts must be between 0 and 5')
+];
+
+const downloadValidation = [
+  query('format').optional().isIn(['zip', 'tar.gz']).withMessage('Format must be zip or tar.gz')
+];
+
+const downloadLinkValidation = [
+  body('format').optional().isIn(['zip', 'tar.gz']).withMessage('Format must be zip or tar.gz'),
+  body('expiresIn').optional().isInt({ min: 60, max: 604800 }).withMessage('expiresIn must be between 60 and 604800 seconds')
+];
+
+const usageValidation = [
+  query('projectId').optional().isMongoId().withMessage('Invalid project id'),
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
 ];
 
 // Routes
-router.post('/', protect, generationValidation, generateCode);
+router.post('/', protect, generationValidation, validate, enforceQuota, generateCode);
 router.get('/', protect, getUserGenerations);
+router.get('/usage', protect, usageValidation, validate, getUsage);
 router.get('/:id', protect, getGenerationById);
+router.post('/:id/refine', protect, refineValidation, validate, enforceQuota, refineGeneration);
+router.get('/:id/history', protect, getGenerationHistory);
+router.post('/:id/cancel', protect, cancelGeneration);
+router.get('/:id/security', protect, getGenerationSecurity);
+router.get('/:id/validation', protect, getGenerationValidation);
+router.post('/:id/revalidate', protect, revalidateGeneration);
+router.get('/:id/download', protectUnlessSigned, downloadValidation, validate, downloadGeneration);
+router.post('/:id/download-link', protect, downloadLinkValidation, validate, createDownloadLink);
 
 export default router;
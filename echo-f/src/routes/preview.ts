@@ -0,0 +1,9 @@
+import express from 'express';
+import { servePreview } from '../controllers/previewController';
+
+const router = express.Router();
+
+// Everything below /preview/:token belongs to the preview
+router.use('/:token', servePreview);
+
+export default router;
@@ -0,0 +1,31 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import {
+  exportProjectBundle,
+  getProjectDiff,
+  getProjectHistory,
+  getValidationPolicy,
+  updateValidationPolicy
+} from '../controllers/projectController';
+import { protect } from '../middleware/auth';
+import { validationPolicyRules } from '../middleware/validationPolicy';
+import { validate } from '../middleware/validate';
+
+const router = express.Router();
+
+// Routes
+router.get('/:id/validation-policy', protect, [param('id').isMongoId()], validate, getValidationPolicy);
+router.put('/:id/validation-policy', protect, [param('id').isMongoId(), ...validationPolicyRules], validate, updateValidationPolicy);
+router.get('/:id/history', protect, [
+  param('id').isMongoId(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], validate, getProjectHistory);
+router.get('/:id/history/diff', protect, [
+  param('id').isMongoId(),
+  query('from').matches(/^[0-9a-f]{4,40}$/),
+  query('to').matches(/^[0-9a-f]{4,40}$/)
+], validate, getProjectDiff);
+router.get('/:id/history/bundle', protect, [param('id').isMongoId()], validate, exportProjectBundle);
+
+export default router;
@@ -0,0 +1,44 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import {
+  getTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  activateTemplate,
+  deactivateTemplate
+} from '../controllers/promptTemplateController';
+import { protect, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = express.Router();
+
+const stacks = ['*', 'react', 'vue', 'angular', 'node', 'python', 'html-css-js', 'react-native', 'electron', 'node-react-fullstack'];
+const outputs = ['*', 'preview', 'deploy', 'download'];
+
+// Validation rules
+const createValidation = [
+  body('stack').isIn(stacks).withMessage('Invalid technology stack'),
+  body('output').isIn(outputs).withMessage('Invalid output type'),
+  body('body').isString().isLength({ min: 20, max: 20000 }).withMessage('Template body must be between 20 and 20000 characters'),
+  body('notes').optional().isLength({ max: 500 }),
+  body('activate').optional().isBoolean()
+];
+
+const updateValidation = [
+  param('id').isMongoId(),
+  body('body').optional().isString().isLength({ min: 20, max: 20000 }).withMessage('Template body must be between 20 and 20000 characters'),
+  body('notes').optional().isLength({ max: 500 })
+];
+
+// Routes
+router.use(protect, authorize('admin'));
+
+router.get('/', getTemplates);
+router.post('/', createValidation, validate, createTemplate);
+router.get('/:id', getTemplate);
+router.put('/:id', updateValidation, validate, updateTemplate);
+router.post('/:id/activate', activateTemplate);
+router.post('/:id/deactivate', deactivateTemplate);
+
+export default router;
@@ -12,9 +12,14 @@ import generationRoutes from './routes/generation';
 import deploymentRoutes from './routes/deployment';
 import collaborationRoutes from './routes/collaboration';
 import analyticsRoutes from './routes/analytics';
+import promptTemplateRoutes from './routes/promptTemplates';
+import previewRoutes from './routes/preview';
 import { errorHandler } from './middleware/errorHandler';
-import { rateLimiter } from './middleware/rateLimiter';
+import { rateLimiter, previewRateLimiter } from './middleware/rateLimiter';
 import { setupSocketHandlers } from './socket/socketHandlers';
+import generationQueue from './services/generationQueue';
+import previewService from './services/previewService';
+import deploymentService from './services/deploymentService';
 
 dotenv.config();
 
@@ -30,6 +35,20 @@ const io = new Server(server, {
 // Connect to database
 connectDB();
 
+// Resume generation jobs interrupted by a restart
+generationQueue.recover().catch(error => {
+  console.error('Failed to recover generation queue: - server.ts:37', error);
+});
+
+// Fail deployments whose build was cut short by a restart, so they can be
+// redeployed or removed
+deploymentService.recover().catch(error => {
+  console.error('Failed to recover deployments: - server.ts:44', error);
+});
+
+// Tear down expired previews, including ones left over from before a restart
+previewService.startSweeper();
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -37,6 +56,11 @@ app.use(cors({
   credentials: true
 }));
 app.use(morgan('combined'));
+
+// Previews are proxied with their request bodies untouched and load many
+// assets, so they go before the body parsers and have their own rate limit
+app.use('/preview', previewRateLimiter, previewRoutes);
+
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(rateLimiter);
@@ -48,6 +72,7 @@ app.use('/api/generation', generationRoutes);
 app.use('/api/deployment', deploymentRoutes);
 app.use('/api/collaboration', collaborationRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/prompt-templates', promptTemplateRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -1,22 +1,68 @@
 import Docker from 'dockerode';
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 import archiver from 'archiver';
 import { createWriteStream } from 'fs';
+import mongoose from 'mongoose';
+import { GenerationStage } from './generationProgress';
+import previewService from './previewService';
+import Deployment, { IDeployment } from '../models/Deployment';
+import { GeneratedFile } from '../utils/generationOutput';
+import { Workspace, WorkspaceError, assertSafeFiles } from '../utils/workspace';
+import { ContainerService, containerFiles, getContainerServices, notDeployableReason } from '../utils/containerDefinitions';
+
+export class DeploymentError extends Error {
+  statusCode = 400;
+  isOperational = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeploymentError';
+  }
+}
 
 interface DeploymentOptions {
+  generationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
   stack: string;
   output: 'preview' | 'deploy' | 'download';
   files: { filename: string; content: string; language: string }[];
+  onStage?: (stage: GenerationStage, message?: string) => void;
 }
 
-interface DeploymentResult {
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export interface DeploymentResult {
+  deploymentId?: string;
   deploymentUrl?: string;
   downloadUrl?: string;
   previewUrl?: string;
-  gitCommitHash?: string;
+  previewExpiresAt?: Date;
 }
 
+export interface ContainerState {
+  service: string;
+  status: string;
+  running: boolean;
+  startedAt?: string;
+  finishedAt?: string;
+  exitCode?: number;
+  restartCount: number;
+}
+
+const DEPLOYMENT_BASE_URL = (process.env.DEPLOYMENT_BASE_URL || 'http://localhost').replace(/\/+$/, '');
+const API_BASE_URL = (process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/+$/, '');
+const DOWNLOADS_DIR = path.join(process.cwd(), 'downloads');
+
+// Docker answers 304 when a container is already in the requested state and
+// 404 when it no longer exists
+const ignoreDockerStatus = (...codes: number[]) => (error: any): void => {
+  if (!codes.includes(error?.statusCode)) throw error;
+};
+
 class DeploymentService {
   private docker: Docker;
 
@@ -25,180 +71,363 @@ class DeploymentService {
   }
 
   async deploy(options: DeploymentOptions): Promise<DeploymentResult> {
-    const { stack, output, files } = options;
+    const { stack, output, files, onStage } = options;
 
     switch (output) {
       case 'preview':
-        return await this.createPreview(files, stack);
+        onStage?.('deploying', 'Creating preview');
+        return await this.createPreview(options);
       case 'deploy':
-        return await this.deployToProduction(files, stack);
+        return await this.deployToProduction(options);
       case 'download':
-        return await this.createDownload(files, stack);
+        onStage?.('deploying', 'Packaging download');
+        return await this.createDownload(options);
       default:
         throw new Error(`Unsupported output type: ${output}`);
     }
   }
 
-  private async createPreview(files: any[], stack: string): Promise<DeploymentResult> {
-    // Simulate rapid deployment for preview
-    const previewId = `preview-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private async createPreview(options: DeploymentOptions): Promise<DeploymentResult> {
+    const { generationId, userId, stack, files, onStage } = options;
+
+    const preview = await previewService.create({
+      generationId,
+      userId,
+      stack,
+      files,
+      onBuild: message => onStage?.('building', message)
+    });
 
-    // In production, this would create a temporary container
-    // For now, simulate with a delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    if (!preview.previewUrl) {
+      onStage?.('deploying', `Preview is not available for the ${stack} stack`);
+    }
 
     return {
-      previewUrl: `https://preview.echo-f.com/${previewId}`,
-      gitCommitHash: this.generateCommitHash()
+      previewUrl: preview.previewUrl,
+      previewExpiresAt: preview.expiresAt
     };
   }
 
-  private async deployToProduction(files: any[], stack: string): Promise<DeploymentResult> {
-    const deploymentId = `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private async deployToProduction(options: DeploymentOptions): Promise<DeploymentResult> {
+    const { generationId, userId, stack, files, onStage } = options;
+    const reason = notDeployableReason(stack);
+    if (reason) throw new DeploymentError(reason);
 
-    try {
-      // Create deployment directory
-      const deployDir = path.join(process.cwd(), 'deployments', deploymentId);
-      await fs.ensureDir(deployDir);
-
-      // Write files
-      for (const file of files) {
-        const filePath = path.join(deployDir, file.filename);
-        await fs.ensureDir(path.dirname(filePath));
-        await fs.writeFile(filePath, file.content);
-      }
+    const deploymentId = `deploy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-      // Create Dockerfile based on stack
-      const dockerfile = this.generateDockerfile(stack);
-      await fs.writeFile(path.join(deployDir, 'Dockerfile'), dockerfile);
+    const deployment = await Deployment.create({
+      deploymentId,
+      generation: generationId,
+      user: userId,
+      stack,
+      containers: getContainerServices(stack).map(service => ({
+        service: service.name,
+        imageTag: this.imageTag(deploymentId, service.name, 1)
+      })),
+      status: 'building'
+    });
 
-      // Build and run container
-      const imageTag = `echo-f-${deploymentId}`;
-      await this.buildDockerImage(deployDir, imageTag);
-      const container = await this.runDockerContainer(imageTag, deploymentId);
+    try {
+      await this.buildAndRun(deployment, files, onStage);
 
       return {
-        deploymentUrl: `https://${deploymentId}.echo-f.com`,
-        gitCommitHash: this.generateCommitHash()
+        deploymentId,
+        deploymentUrl: deployment.url
       };
 
     } catch (error) {
+      if (error instanceof WorkspaceError) throw error;
       console.error('Deployment failed: - deploymentService.ts:86', error);
       throw new Error('Deployment failed');
     }
   }
 
-  private async createDownload(files: any[], stack: string): Promise<DeploymentResult> {
-    const downloadId = `download-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const zipPath = path.join(process.cwd(), 'downloads', `${downloadId}.zip`);
+  // Live state of each of the deployment's containers; containers that are
+  // gone are left out
+  async inspect(deployment: IDeployment): Promise<ContainerState[]> {
+    const states: ContainerState[] = [];
+
+    for (const { service, containerId } of deployment.containers) {
+      if (!containerId) continue;
+
+      try {
+        const info = await this.docker.getContainer(containerId).inspect();
+        states.push({
+          service,
+          status: info.State.Status,
+          running: info.State.Running,
+          startedAt: info.State.StartedAt,
+          finishedAt: info.State.FinishedAt,
+          exitCode: info.State.ExitCode,
+          restartCount: info.RestartCount
+        });
+      } catch (error: any) {
+        if (error?.statusCode !== 404) throw error;
+      }
+    }
+
+    return states;
+  }
+
+  // Stopped in reverse start order, so nothing loses a service it depends on
+  // while still running
+  async stop(deployment: IDeployment): Promise<IDeployment> {
+    for (const { containerId } of [...deployment.containers].reverse()) {
+      if (!containerId) continue;
+      await this.docker.getContainer(containerId).stop().catch(ignoreDockerStatus(304, 404));
+    }
+
+    deployment.status = 'stopped';
+    deployment.stoppedAt = new Date();
+    return await deployment.save();
+  }
+
+  // Random host ports can change when a container starts again, so they are
+  // read back afterwards
+  async restart(deployment: IDeployment): Promise<IDeployment> {
+    if (!deployment.containers.some(container => container.containerId)) {
+      throw new Error('Deployment has no container to restart');
+    }
+
+    for (const { containerId } of deployment.containers) {
+      if (containerId) await this.docker.getContainer(containerId).restart();
+    }
+    await this.applyPorts(deployment);
+
+    deployment.status = 'running';
+    deployment.error = undefined;
+    deployment.startedAt = new Date();
+    deployment.stoppedAt = undefined;
+    return await deployment.save();
+  }
+
+  // Marks the deployment as building and moves it to the next revision in a
+  // single conditional update, so only one rebuild can start. Returns null
+  // when a build is already running.
+  async claimRedeploy(deployment: IDeployment): Promise<IDeployment | null> {
+    return await Deployment.findOneAndUpdate(
+      { _id: deployment._id, status: { $ne: 'building' } },
+      { $set: { status: 'building' }, $unset: { error: 1 }, $inc: { revision: 1 } },
+      { new: true }
+    );
+  }
+
+  // Builds the revision claimed by claimRedeploy() from the given files. The
+  // old containers keep serving until the new images have been built.
+  async redeploy(deployment: IDeployment, files: GeneratedFile[], onStage?: DeploymentOptions['onStage']): Promise<IDeployment> {
+    const previousImages = deployment.containers.map(container => container.imageTag);
+
+    for (const container of deployment.containers) {
+      container.imageTag = this.imageTag(deployment.deploymentId, container.service, deployment.revision);
+    }
+    await deployment.save();
+
+    await this.buildAndRun(deployment, files, onStage);
+    for (const image of previousImages) {
+      await this.docker.getImage(image).remove({ force: true }).catch(ignoreDockerStatus(404, 409));
+    }
+    return deployment;
+  }
+
+  // Builds run in this process, so any deployment still marked as building
+  // at startup was interrupted by a restart and is never going to finish
+  async recover(): Promise<void> {
+    const result = await Deployment.updateMany(
+      { status: 'building' },
+      { status: 'failed', error: 'Build was interrupted by a server restart' }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.log(`Marked ${result.modifiedCount} interrupted deployments as failed - deploymentService.ts:242`);
+    }
+  }
+
+  // Removes the containers, the images, the network and the record
+  async remove(deployment: IDeployment): Promise<void> {
+    for (const { containerId, imageTag } of deployment.containers) {
+      if (containerId) {
+        await this.docker.getContainer(containerId).remove({ force: true }).catch(ignoreDockerStatus(404));
+      }
+      await this.docker.getImage(imageTag).remove({ force: true }).catch(ignoreDockerStatus(404));
+    }
+    await this.docker.getNetwork(this.networkName(deployment.deploymentId)).remove().catch(ignoreDockerStatus(404));
+    await Workspace.open('deployments', deployment.deploymentId).remove().catch(() => undefined);
+    await deployment.deleteOne();
+  }
+
+  // Builds an image for every service of the stack at the deployment's
+  // current tags, then replaces the running containers with new ones in
+  // start order. Failures are recorded on the deployment and rethrown.
+  private async buildAndRun(deployment: IDeployment, files: GeneratedFile[], onStage?: DeploymentOptions['onStage']): Promise<void> {
+    const { deploymentId, stack } = deployment;
+    const services = getContainerServices(stack);
+    let workspace: Workspace | undefined;
 
     try {
-      await fs.ensureDir(path.dirname(zipPath));
-
-      // Create zip archive
-      const output = createWriteStream(zipPath);
-      const archive = archiver('zip', { zlib: { level: 9 } });
-
-      return new Promise((resolve, reject) => {
-        output.on('close', () => {
-          resolve({
-            downloadUrl: `https://downloads.echo-f.com/${downloadId}.zip`,
-            gitCommitHash: this.generateCommitHash()
-          });
-        });
+      // Create deployment directory with the generated files
+      workspace = await Workspace.create('deployments', files, deploymentId);
+
+      for (const service of services) {
+        const { imageTag } = this.containerFor(deployment, service);
+        await workspace.writeFile(service.context === '.' ? 'Dockerfile' : `${service.context}/Dockerfile`, service.dockerfile);
+
+        onStage?.('building', `Building image ${imageTag}`);
+        await this.buildDockerImage(path.join(workspace.root, service.context), imageTag);
+      }
+
+      for (const container of deployment.containers) {
+        if (!container.containerId) continue;
+        await this.docker.getContainer(container.containerId).remove({ force: true }).catch(ignoreDockerStatus(404));
+        container.containerId = undefined;
+      }
 
+      // Services find each other by name on a network of their own
+      const network = services.length > 1 ? this.networkName(deploymentId) : undefined;
+      if (network) {
+        await this.docker.createNetwork({ Name: network, CheckDuplicate: true }).catch(ignoreDockerStatus(409));
+      }
+
+      for (const service of services) {
+        onStage?.('deploying', services.length > 1 ? `Starting ${service.name} container` : 'Starting container');
+        const entry = this.containerFor(deployment, service);
+        const container = await this.runDockerContainer(entry.imageTag, `${deploymentId}-${service.name}`, service, network);
+        entry.containerId = container.id;
+      }
+
+      await this.applyPorts(deployment);
+      deployment.status = 'running';
+      deployment.startedAt = new Date();
+      deployment.stoppedAt = undefined;
+      await deployment.save();
+    } catch (error: any) {
+      deployment.status = 'failed';
+      deployment.error = error.message;
+      await deployment.save().catch(() => undefined);
+      throw error;
+    } finally {
+      // The image holds everything the container needs
+      await workspace?.remove().catch(() => undefined);
+    }
+  }
+
+  private imageTag(deploymentId: string, service: string, revision: number): string {
+    return `echo-f-${deploymentId}-${service}:r${revision}`;
+  }
+
+  private networkName(deploymentId: string): string {
+    return `echo-f-${deploymentId}`;
+  }
+
+  private containerFor(deployment: IDeployment, service: ContainerService): IDeployment['containers'][number] {
+    const container = deployment.containers.find(entry => entry.service === service.name);
+    if (!container) {
+      throw new Error(`Deployment has no ${service.name} container`);
+    }
+    return container;
+  }
+
+  // Reads back the host ports of the exposed services; the first one is the
+  // deployment's URL
+  private async applyPorts(deployment: IDeployment): Promise<void> {
+    const ports: IDeployment['ports'] = [];
+
+    for (const service of getContainerServices(deployment.stack).filter(entry => entry.exposed)) {
+      const { containerId } = this.containerFor(deployment, service);
+      if (!containerId) continue;
+
+      const info = await this.docker.getContainer(containerId).inspect();
+      ports.push({
+        service: service.name,
+        containerPort: service.port,
+        hostPort: parseInt(info.NetworkSettings.Ports[`${service.port}/tcp`]?.[0]?.HostPort || '0')
+      });
+    }
+
+    deployment.set('ports', ports);
+    deployment.url = ports[0]?.hostPort ? `${DEPLOYMENT_BASE_URL}:${ports[0].hostPort}` : undefined;
+  }
+
+  // The zip is built right away; the URL needs the owner's token or a
+  // signed link from POST /api/generation/:id/download-link
+  private async createDownload(options: DeploymentOptions): Promise<DeploymentResult> {
+    const { generationId, stack, files } = options;
+
+    try {
+      await this.writeArchive(generationId.toString(), stack, files, 'zip');
+
+      return {
+        downloadUrl: `${API_BASE_URL}/api/generation/${generationId}/download?format=zip`
+      };
+
+    } catch (error) {
+      if (error instanceof WorkspaceError) throw error;
+      console.error('Download creation failed: - deploymentService.ts:130', error);
+      throw new Error('Download creation failed');
+    }
+  }
+
+  // Path of a generation's archive, rebuilt from the given files when the
+  // cached copy has been removed
+  async getArchive(generationId: string, stack: string, files: GeneratedFile[], format: ArchiveFormat): Promise<string> {
+    const archivePath = this.archivePath(generationId, format);
+    if (await fs.pathExists(archivePath)) return archivePath;
+
+    return await this.writeArchive(generationId, stack, files, format);
+  }
+
+  // Written under a unique temporary name and renamed, so concurrent requests
+  // never serve a half-written archive
+  private async writeArchive(generationId: string, stack: string, files: GeneratedFile[], format: ArchiveFormat): Promise<string> {
+    const safeFiles = assertSafeFiles(files);
+    const archivePath = this.archivePath(generationId, format);
+    const tempPath = `${archivePath}.${process.pid}-${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.ensureDir(DOWNLOADS_DIR);
+
+    const output = createWriteStream(tempPath);
+    const archive = format === 'zip'
+      ? archiver('zip', { zlib: { level: 9 } })
+      : archiver('tar', { gzip: true, gzipOptions: { level: 9 } });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        output.on('close', resolve);
+        output.on('error', reject);
         archive.on('error', reject);
         archive.pipe(output);
 
         // Add files to archive
-        for (const file of files) {
+        for (const file of safeFiles) {
           archive.append(file.content, { name: file.filename });
         }
 
-        // Add README
-        const readme = this.generateReadme(stack);
-        archive.append(readme, { name: 'README.md' });
+        // Add Dockerfiles, compose file, README and installation script
+        // unless the project has its own
+        const generated = new Set(safeFiles.map(file => file.filename));
+        for (const file of containerFiles(stack)) {
+          if (!generated.has(file.filename)) archive.append(file.content, { name: file.filename });
+        }
 
-        // Add installation script
-        const installScript = this.generateInstallScript(stack);
-        archive.append(installScript, { name: 'install.sh' });
+        if (!generated.has('README.md')) {
+          archive.append(this.generateReadme(stack), { name: 'README.md' });
+        }
+
+        if (!generated.has('install.sh')) {
+          archive.append(this.generateInstallScript(stack), { name: 'install.sh', mode: 0o755 });
+        }
 
         archive.finalize();
       });
 
+      await fs.move(tempPath, archivePath, { overwrite: true });
+      return archivePath;
     } catch (error) {
-      console.error('Download creation failed: - deploymentService.ts:130', error);
-      throw new Error('Download creation failed');
+      await fs.remove(tempPath).catch(() => undefined);
+      throw error;
     }
   }
 
-  private generateDockerfile(stack: string): string {
-    const dockerfiles: { [key: string]: string } = {
-      'react': `FROM node:18-alpine
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-COPY . .
-RUN npm run build
-EXPOSE 3000
-CMD ["npm", "start"]`,
-
-      'vue': `FROM node:18-alpine
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-COPY . .
-RUN npm run build
-EXPOSE 8080
-CMD ["npm", "run", "serve"]`,
-
-      'node': `FROM node:18-alpine
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-COPY . .
-EXPOSE 3000
-CMD ["node", "server.js"]`,
-
-      'python': `FROM python:3.9-slim
-WORKDIR /app
-COPY requirements.txt .
-RUN pip install -r requirements.txt
-COPY . .
-EXPOSE 8000
-CMD ["python", "app.py"]`,
-
-      'html-css-js': `FROM nginx:alpine
-COPY . /usr/share/nginx/html
-EXPOSE 80
-CMD ["nginx", "-g", "daemon off;"]`,
-
-      'node-react-fullstack': `FROM node:18-alpine
-WORKDIR /app
-
-# Copy backend
-COPY backend/package*.json ./backend/
-WORKDIR /app/backend
-RUN npm ci --only=production
-
-# Copy frontend
-WORKDIR /app
-COPY frontend/package*.json ./frontend/
-WORKDIR /app/frontend
-RUN npm ci --only=production && npm run build
-
-# Copy all files
-WORKDIR /app
-COPY . .
-
-# Expose ports
-EXPOSE 3000 3001
-
-# Start both services
-CMD ["npm", "run", "dev"]`
-    };
-
-    return dockerfiles[stack] || dockerfiles['node'];
+  private archivePath(generationId: string, format: ArchiveFormat): string {
+    return path.join(DOWNLOADS_DIR, `${generationId}.${format}`);
   }
 
   private async buildDockerImage(context: string, tag: string): Promise<void> {
@@ -217,32 +446,25 @@ CMD ["npm", "run", "dev"]`
     });
   }
 
-  private async runDockerContainer(imageTag: string, containerName: string): Promise<any> {
+  private async runDockerContainer(imageTag: string, containerName: string, service: ContainerService, network?: string): Promise<Docker.Container> {
+    const port = `${service.port}/tcp`;
     const container = await this.docker.createContainer({
       Image: imageTag,
       name: containerName,
-      ExposedPorts: {
-        '3000/tcp': {},
-        '80/tcp': {},
-        '8000/tcp': {}
-      },
+      ExposedPorts: { [port]: {} },
       HostConfig: {
-        PortBindings: {
-          '3000/tcp': [{ HostPort: '0' }],
-          '80/tcp': [{ HostPort: '0' }],
-          '8000/tcp': [{ HostPort: '0' }]
-        }
-      }
+        PortBindings: service.exposed ? { [port]: [{ HostPort: '0' }] } : {},
+        NetworkMode: network
+      },
+      NetworkingConfig: network ? {
+        EndpointsConfig: { [network]: { Aliases: [service.name] } }
+      } : undefined
     });
 
     await container.start();
     return container;
   }
 
-  private generateCommitHash(): string {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-  }
-
   private generateReadme(stack: string): string {
     return `# Generated by EchoF AI - Powered by Mlungisi
 
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import generationCache, { CacheKeyInput, normalizePrompt } from './generationCache';
+import { resolveValidationPolicy } from '../config/validationPolicy';
+
+describe('normalizePrompt', () => {
+  it('ignores whitespace differences', () => {
+    expect(normalizePrompt('  Build a   Todo\napp ')).toBe('Build a Todo app');
+  });
+
+  it('keeps case', () => {
+    expect(normalizePrompt('Read API_KEY')).not.toBe(normalizePrompt('read api_key'));
+  });
+});
+
+describe('generationCache.buildKey', () => {
+  const templateId = new mongoose.Types.ObjectId();
+  const input: CacheKeyInput = {
+    prompt: 'Build a todo app',
+    stack: 'react',
+    output: 'preview',
+    promptTemplate: templateId,
+    promptTemplateVersion: 1,
+    systemPrompt: 'You are a React developer.',
+    validationPolicy: resolveValidationPolicy()
+  };
+
+  it('is a stable sha256 hex digest', () => {
+    const key = generationCache.buildKey(input);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(generationCache.buildKey({ ...input, promptTemplate: new mongoose.Types.ObjectId(templateId.toString()) })).toBe(key);
+  });
+
+  it('treats prompts that only differ in whitespace as equal', () => {
+    expect(generationCache.buildKey({ ...input, prompt: ' Build a\n todo  app' })).toBe(generationCache.buildKey(input));
+  });
+
+  it.each<[string, Partial<CacheKeyInput>]>([
+    ['prompt', { prompt: 'Build a chat app' }],
+    ['case of the prompt', { prompt: 'Build a Todo app' }],
+    ['stack', { stack: 'vue' }],
+    ['output', { output: 'download' }],
+    ['template', { promptTemplate: new mongoose.Types.ObjectId() }],
+    ['built-in template', { promptTemplate: undefined }],
+    ['template version', { promptTemplateVersion: 2 }],
+    ['system prompt', { systemPrompt: 'You are a React developer.\nProject: Acme' }],
+    ['validation policy', { validationPolicy: resolveValidationPolicy({ checks: { security: false } }) }]
+  ])('changes with the %s', (_, change) => {
+    expect(generationCache.buildKey({ ...input, ...change })).not.toBe(generationCache.buildKey(input));
+  });
+});
@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import GenerationCache, { IGenerationCache } from '../models/GenerationCache';
+import { GeneratedFile } from '../utils/generationOutput';
+import { ValidationPolicy } from '../config/validationPolicy';
+
+export interface CacheKeyInput {
+  prompt: string;
+  stack: string;
+  output: string;
+  promptTemplate?: mongoose.Types.ObjectId;
+  promptTemplateVersion: number;
+  // The rendered system prompt, which carries the project context and the
+  // user's preferences
+  systemPrompt: string;
+  validationPolicy: ValidationPolicy;
+}
+
+export interface CacheEntryInput {
+  stack: string;
+  output: string;
+  promptTemplateVersion: number;
+  files: GeneratedFile[];
+  documentation?: string;
+  installationScript?: string;
+  provider?: string;
+  modelUsed?: string;
+  sourceGeneration: mongoose.Types.ObjectId;
+}
+
+// Whitespace differences should not defeat the cache. Case is kept: it is
+// significant in component names, string literals and variable names.
+export const normalizePrompt = (prompt: string): string => {
+  return prompt.trim().replace(/\s+/g, ' ');
+};
+
+// Content-addressed cache of validated generation results, plus in-process
+// coalescing so identical requests that arrive together share one LLM call.
+class GenerationCacheService {
+  private ttlHours = parseFloat(process.env.GENERATION_CACHE_TTL_HOURS || '24');
+  private inFlight = new Map<string, Promise<any>>();
+
+  isEnabled(): boolean {
+    return this.ttlHours > 0;
+  }
+
+  buildKey(input: CacheKeyInput): string {
+    // The template id distinguishes wildcard and stack-specific templates
+    // that happen to share a version number. Results are only reused under
+    // the policy they were validated against and for the same rendered
+    // system prompt, so no project or user gets output shaped by another's
+    // context.
+    const parts = [
+      normalizePrompt(input.prompt),
+      input.stack,
+      input.output,
+      input.promptTemplate ? input.promptTemplate.toString() : 'builtin',
+      input.promptTemplateVersion.toString(),
+      crypto.createHash('sha256').update(input.systemPrompt).digest('hex'),
+      JSON.stringify(input.validationPolicy)
+    ];
+
+    return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex');
+  }
+
+  async get(key: string): Promise<IGenerationCache | null> {
+    if (!this.isEnabled()) return null;
+
+    return await GenerationCache.findOneAndUpdate(
+      { key, expiresAt: { $gt: new Date() } },
+      { $inc: { hits: 1 } },
+      { new: true }
+    );
+  }
+
+  async set(key: string, entry: CacheEntryInput): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    await GenerationCache.findOneAndUpdate(
+      { key },
+      {
+        ...entry,
+        key,
+        hits: 0,
+        expiresAt: new Date(Date.now() + this.ttlHours * 60 * 60 * 1000)
+      },
+      { upsert: true }
+    );
+  }
+
+  // Runs factory once per key at a time. Callers that join an in-flight run
+  // get its result with shared set to true.
+  async coalesce<T>(key: string, factory: () => Promise<T>): Promise<{ result: T; shared: boolean }> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return { result: await existing, shared: true };
+    }
+
+    const promise = factory();
+    this.inFlight.set(key, promise);
+
+    try {
+      return { result: await promise, shared: false };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
+
+export default new GenerationCacheService();
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import Generation, { IGeneration } from '../models/Generation';
+import llmService, { GenerationResult } from './llmService';
+import validationService, { ValidationResult } from './validationService';
+import deploymentService from './deploymentService';
+import gitService from './gitService';
+import generationProgress from './generationProgress';
+import quotaService from './quotaService';
+import generationPipeline, { GenerationValidationError } from './generationPipeline';
+import { GenerationCancelledError } from '../utils/cancellation';
+
+jest.mock('../models/Generation', () => ({
+  __esModule: true,
+  default: { findByIdAndUpdate: jest.fn(), findById: jest.fn() }
+}));
+jest.mock('../models/Project', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+jest.mock('../models/User', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+jest.mock('./llmService', () => ({
+  __esModule: true,
+  default: { generateCode: jest.fn(), refineCode: jest.fn(), repairCode: jest.fn() }
+}));
+jest.mock('./validationService', () => ({
+  __esModule: true,
+  default: { validateCode: jest.fn() },
+  toValidationReport: (result: any) => ({ isValid: result.isValid, errors: result.errors })
+}));
+jest.mock('./deploymentService', () => ({ __esModule: true, default: { deploy: jest.fn() } }));
+jest.mock('./gitService', () => ({
+  __esModule: true,
+  default: { commit: jest.fn(), repositoryFor: jest.fn(() => 'repositories/generation.git') }
+}));
+jest.mock('./generationProgress', () => ({ __esModule: true, default: { forGeneration: jest.fn() } }));
+jest.mock('./generationCache', () => ({ __esModule: true, default: { isEnabled: () => false } }));
+jest.mock('./quotaService', () => ({ __esModule: true, default: { release: jest.fn() } }));
+jest.mock('./promptTemplateService', () => ({
+  __esModule: true,
+  default: { render: jest.fn(async () => ({ systemPrompt: 'system', version: 0 })) }
+}));
+
+const generations = Generation as jest.Mocked<any>;
+const llm = llmService as jest.Mocked<typeof llmService>;
+const validation = validationService as jest.Mocked<typeof validationService>;
+const deployment = deploymentService as jest.Mocked<typeof deploymentService>;
+const git = gitService as jest.Mocked<typeof gitService>;
+const quota = quotaService as jest.Mocked<typeof quotaService>;
+
+const files = [{ filename: 'index.html', language: 'html', content: '<h1>Hi</h1>' }];
+
+const result = (overrides: Partial<GenerationResult> = {}): GenerationResult => ({
+  files,
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 },
+  ...overrides
+});
+
+const outcome = (errors: string[] = []): ValidationResult => ({
+  isValid: errors.length === 0,
+  errors,
+  warnings: [],
+  securityIssues: [],
+  securityFindings: [],
+  diagnostics: [],
+  testRuns: [],
+  policy: {} as ValidationResult['policy']
+});
+
+const newGeneration = (overrides: Partial<IGeneration> = {}): IGeneration => ({
+  _id: new mongoose.Types.ObjectId(),
+  user: new mongoose.Types.ObjectId(),
+  prompt: 'Build a landing page',
+  stack: 'html-css-js',
+  output: 'preview',
+  maxRepairAttempts: 0,
+  useCache: false,
+  createdAt: new Date(),
+  ...overrides
+}) as unknown as IGeneration;
+
+// Updates written to the generation record, in order
+const updates = (): any[] => generations.findByIdAndUpdate.mock.calls.map(([, update]: any[]) => update);
+
+describe('generationPipeline.run', () => {
+  let reporter: { stage: jest.Mock; token: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reporter = { stage: jest.fn(), token: jest.fn() };
+    (generationProgress.forGeneration as jest.Mock).mockReturnValue(reporter);
+    generations.findByIdAndUpdate.mockImplementation(async (_id: any, update: any) => update);
+    llm.generateCode.mockResolvedValue(result());
+    validation.validateCode.mockResolvedValue(outcome());
+    deployment.deploy.mockResolvedValue({ previewUrl: 'http://localhost/preview/token/' });
+    git.commit.mockResolvedValue('a1b2c3');
+    quota.release.mockResolvedValue();
+  });
+
+  it('generates, validates, commits and deploys', async () => {
+    const generation = newGeneration();
+
+    const { generation: updated } = await generationPipeline.run(generation);
+
+    expect(llm.generateCode).toHaveBeenCalledWith('Build a landing page', 'system', 'html-css-js', expect.any(Object));
+    expect(validation.validateCode).toHaveBeenCalledWith(files, 'html-css-js', expect.any(Object));
+    expect(deployment.deploy).toHaveBeenCalledWith(expect.objectContaining({ generationId: generation._id, files }));
+    expect(updated).toEqual(expect.objectContaining({
+      status: 'completed',
+      previewUrl: 'http://localhost/preview/token/'
+    }));
+    expect(updates()).toContainEqual(expect.objectContaining({ generatedFiles: files, gitCommitHash: 'a1b2c3' }));
+    expect(reporter.stage).toHaveBeenLastCalledWith('completed');
+  });
+
+  it('keeps the files and completes when the deployment fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    deployment.deploy.mockRejectedValue(new Error('Preview build failed (exit code 1)'));
+
+    const { generation: updated } = await generationPipeline.run(newGeneration());
+
+    const stored = updates().findIndex(update => update.generatedFiles);
+    const completed = updates().findIndex(update => update.status === 'completed');
+    expect(stored).toBeGreaterThan(-1);
+    expect(stored).toBeLessThan(completed);
+    expect(updates()[stored]).toEqual(expect.objectContaining({ gitCommitHash: 'a1b2c3' }));
+    expect(updated).toEqual(expect.objectContaining({
+      status: 'completed',
+      deploymentError: 'Preview build failed (exit code 1)',
+      previewUrl: undefined
+    }));
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('feeds validation errors back to the model while repair attempts last', async () => {
+    const fixed = [{ filename: 'index.html', language: 'html', content: '<main>Hi</main>' }];
+    validation.validateCode
+      .mockResolvedValueOnce(outcome(['index.html: unclosed tag']))
+      .mockResolvedValueOnce(outcome());
+    llm.repairCode.mockResolvedValue(result({ files: fixed }));
+
+    await generationPipeline.run(newGeneration({ maxRepairAttempts: 2 }));
+
+    expect(llm.repairCode).toHaveBeenCalledWith(files, ['index.html: unclosed tag'], files, 'system', 'html-css-js', expect.any(Object));
+    expect(updates()).toContainEqual(expect.objectContaining({ generatedFiles: fixed }));
+  });
+
+  it('fails without deploying when validation still fails', async () => {
+    validation.validateCode.mockResolvedValue(outcome(['index.html: unclosed tag']));
+
+    await expect(generationPipeline.run(newGeneration({ maxRepairAttempts: 1 }))).rejects.toBeInstanceOf(GenerationValidationError);
+
+    expect(llm.repairCode).toHaveBeenCalledTimes(1);
+    expect(deployment.deploy).not.toHaveBeenCalled();
+    expect(updates()).toContainEqual(expect.objectContaining({ status: 'failed', error: 'index.html: unclosed tag' }));
+  });
+
+  it('records provider failures on the generation', async () => {
+    llm.generateCode.mockRejectedValue(new Error('Failed to generate code'));
+
+    await expect(generationPipeline.run(newGeneration())).rejects.toThrow('Failed to generate code');
+
+    expect(updates()).toContainEqual(expect.objectContaining({ status: 'failed', error: 'Failed to generate code' }));
+    expect(reporter.stage).toHaveBeenCalledWith('failed', 'Failed to generate code');
+  });
+
+  it('marks a cancelled run and gives back the quota when nothing was spent', async () => {
+    const generation = newGeneration();
+    llm.generateCode.mockRejectedValue(new GenerationCancelledError());
+
+    await expect(generationPipeline.run(generation)).rejects.toBeInstanceOf(GenerationCancelledError);
+
+    expect(updates()).toContainEqual(expect.objectContaining({ status: 'cancelled' }));
+    expect(quota.release).toHaveBeenCalledWith(generation.user, generation.createdAt);
+    expect(reporter.stage).toHaveBeenCalledWith('cancelled');
+  });
+
+  it('keeps the quota of a run cancelled after tokens were spent', async () => {
+    llm.generateCode.mockImplementation(async (_prompt, _system, _stack, hooks) => {
+      hooks?.usage?.({ provider: 'openai', model: 'gpt-4o-mini', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } });
+      throw new GenerationCancelledError();
+    });
+
+    await expect(generationPipeline.run(newGeneration())).rejects.toBeInstanceOf(GenerationCancelledError);
+
+    expect(updates()).toContainEqual(expect.objectContaining({
+      status: 'cancelled',
+      metadata: expect.objectContaining({ tokensUsed: 15 })
+    }));
+    expect(quota.release).not.toHaveBeenCalled();
+  });
+
+  it('stops at the next stage boundary once the signal is aborted', async () => {
+    const controller = new AbortController();
+    llm.generateCode.mockImplementation(async () => {
+      controller.abort();
+      return result();
+    });
+
+    await expect(generationPipeline.run(newGeneration(), undefined, controller.signal)).rejects.toBeInstanceOf(GenerationCancelledError);
+
+    expect(validation.validateCode).not.toHaveBeenCalled();
+    expect(deployment.deploy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,484 @@
+import mongoose from 'mongoose';
+import Generation, { IGeneration } from '../models/Generation';
+import Project, { IProject } from '../models/Project';
+import User, { IUser } from '../models/User';
+import llmService, { AttemptUsage, GenerationHooks, GenerationResult } from './llmService';
+import validationService, { ValidationResult, toValidationReport } from './validationService';
+import deploymentService, { DeploymentResult } from './deploymentService';
+import gitService from './gitService';
+import generationProgress, { GenerationReporter } from './generationProgress';
+import generationCache from './generationCache';
+import quotaService from './quotaService';
+import promptTemplateService, { RenderedPrompt } from './promptTemplateService';
+import { GeneratedFile } from '../utils/generationOutput';
+import { FileChange, applyFileChanges, diffFileSets } from '../utils/fileChanges';
+import { TokenUsage } from '../config/pricing';
+import { ValidationPolicy, resolveValidationPolicy } from '../config/validationPolicy';
+import { Redaction, redactSecrets } from '../utils/secretDetection';
+import { GenerationCancelledError, throwIfCancelled } from '../utils/cancellation';
+
+export class GenerationValidationError extends Error {
+  statusCode = 400;
+  isOperational = true;
+
+  constructor(public validation: ValidationResult) {
+    super('Generated code validation failed');
+    this.name = 'GenerationValidationError';
+  }
+}
+
+export interface PipelineResult {
+  generation: IGeneration;
+  changes?: FileChange[];
+}
+
+interface UsageTotals {
+  usage: TokenUsage;
+  cost?: number;
+  provider?: string;
+  model?: string;
+}
+
+const toPlainFiles = (files: GeneratedFile[]): GeneratedFile[] => {
+  return files.map(({ filename, content, language }) => ({ filename, content, language }));
+};
+
+// Every provider request is billed, including repairs, retries, fallbacks
+// and responses that could not be parsed, so usage is summed over all of them
+const addUsage = (totals: UsageTotals, attempt: AttemptUsage): void => {
+  totals.usage.promptTokens += attempt.usage.promptTokens;
+  totals.usage.completionTokens += attempt.usage.completionTokens;
+  totals.usage.totalTokens += attempt.usage.totalTokens;
+  if (attempt.cost !== undefined) {
+    totals.cost = (totals.cost || 0) + attempt.cost;
+  }
+  totals.provider = attempt.provider;
+  totals.model = attempt.model;
+};
+
+const buildMetadata = (generation: IGeneration, totals: UsageTotals, cache: CacheInfo) => ({
+  ...cache,
+  tokensUsed: totals.usage.totalTokens,
+  promptTokens: totals.usage.promptTokens,
+  completionTokens: totals.usage.completionTokens,
+  cost: totals.cost,
+  generationTime: Date.now() - generation.createdAt.getTime(),
+  provider: totals.provider,
+  modelUsed: totals.model
+});
+
+// Validation messages name files by path or basename; anything mentioned is
+// sent back in full. If nothing matches, every file is considered suspect.
+const findOffendingFiles = (files: GeneratedFile[], errors: string[]): GeneratedFile[] => {
+  const offending = files.filter(file => {
+    const basename = file.filename.split('/').pop()!;
+    return errors.some(error => error.includes(file.filename) || error.includes(basename));
+  });
+
+  return offending.length > 0 ? offending : files;
+};
+
+const renderSystemPrompt = (generation: IGeneration, project: IProject | null, user: IUser | null): Promise<RenderedPrompt> => {
+  const projectContext = project
+    ? [
+      `Name: ${project.name}`,
+      `Description: ${project.description}`,
+      project.tags.length > 0 ? `Tags: ${project.tags.join(', ')}` : ''
+    ].filter(Boolean).join('\n')
+    : undefined;
+
+  return promptTemplateService.render({
+    stack: generation.stack,
+    output: generation.output,
+    projectContext,
+    userPreferences: user?.generationPreferences
+  });
+};
+
+interface ProducedFiles {
+  files: GeneratedFile[];
+  documentation?: string;
+  installationScript?: string;
+  validation: ValidationResult;
+  // Secrets removed from the files before they were validated
+  redactions: Redaction[];
+  // Provider and model behind the final files
+  provider?: string;
+  model?: string;
+}
+
+interface CacheInfo {
+  cacheHit: boolean;
+  cacheKey?: string;
+  cachedFrom?: mongoose.Types.ObjectId;
+}
+
+// Cached files were validated and redacted when their source generation
+// produced them, so its stored report and redactions are carried over.
+// Entries whose source is gone or has not stored a report yet get an empty
+// passing result.
+const reusedValidation = async (
+  sourceGeneration: mongoose.Types.ObjectId,
+  policy: ValidationPolicy
+): Promise<{ validation: ValidationResult; redactions: Redaction[] }> => {
+  const source = await Generation.findById(sourceGeneration).select('validation testRuns redactions').lean();
+  const report = source?.validation;
+  const redactions = (source?.redactions || []) as Redaction[];
+
+  if (!report?.validatedAt) {
+    return {
+      validation: { isValid: true, errors: [], warnings: [], securityIssues: [], securityFindings: [], diagnostics: [], testRuns: [], policy },
+      redactions
+    };
+  }
+
+  return {
+    validation: {
+      isValid: true,
+      errors: report.errors,
+      warnings: report.warnings,
+      securityIssues: report.securityIssues,
+      securityFindings: report.securityFindings,
+      diagnostics: report.diagnostics as ValidationResult['diagnostics'],
+      testRuns: source!.testRuns,
+      policy
+    },
+    redactions
+  };
+};
+
+// Commits the final files to the generation's repository. History is a
+// record of the work, not part of it, so a failed commit leaves the
+// generation without a commit rather than failing it.
+const commitGeneration = async (
+  generation: IGeneration,
+  parent: IGeneration | undefined,
+  user: IUser | null,
+  files: GeneratedFile[]
+): Promise<{ gitRepository: string; gitCommitHash?: string }> => {
+  const gitRepository = generation.project
+    ? gitService.repositoryFor(generation.project.toString())
+    : parent?.gitRepository || gitService.repositoryFor(undefined, (parent || generation)._id.toString());
+
+  try {
+    const gitCommitHash = await gitService.commit({
+      repository: gitRepository,
+      generationId: generation._id.toString(),
+      files,
+      message: generation.prompt,
+      author: user ? { name: user.name, email: user.email } : undefined,
+      // A refinement builds on its parent's commit when that is in the same repository
+      parent: parent?.gitRepository === gitRepository ? parent.gitCommitHash : undefined
+    });
+    return { gitRepository, gitCommitHash };
+  } catch (error) {
+    console.error('Git commit failed: - generationPipeline.ts:158', error);
+    return { gitRepository };
+  }
+};
+
+const emptyTotals = (): UsageTotals => ({ usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } });
+
+// Runs a generation record through the LLM, validation and deployment, and
+// writes the outcome back to it. When a parent is given the LLM refines the
+// parent's files instead of starting from scratch. Failed validation is fed
+// back to the LLM up to generation.maxRepairAttempts times. Aborting the
+// signal stops the run at the next stage boundary.
+class GenerationPipeline {
+  async run(generation: IGeneration, parent?: IGeneration, signal?: AbortSignal): Promise<PipelineResult> {
+    const progress = generationProgress.forGeneration({
+      generationId: generation._id.toString(),
+      userId: generation.user.toString(),
+      projectId: generation.project?.toString()
+    });
+
+    // Everything this run spends, recorded whether or not it succeeds
+    const totals = emptyTotals();
+    let cacheInfo: CacheInfo = { cacheHit: false };
+
+    const hooks: GenerationHooks = {
+      stage: (stage, message) => progress.stage(stage, message),
+      token: chunk => progress.token(chunk),
+      usage: attempt => addUsage(totals, attempt),
+      signal
+    };
+
+    try {
+      const previousFiles = parent ? toPlainFiles(parent.generatedFiles) : [];
+
+      const [project, user] = await Promise.all([
+        generation.project ? Project.findById(generation.project) : null,
+        User.findById(generation.user)
+      ]);
+
+      const prompt = await renderSystemPrompt(generation, project, user);
+      // The project's policy takes precedence over the user's default
+      const policy = resolveValidationPolicy(user?.validationPolicy, project?.validationPolicy);
+      await Generation.findByIdAndUpdate(generation._id, {
+        promptTemplate: prompt.templateId,
+        promptTemplateVersion: prompt.version,
+        validationPolicy: policy
+      });
+
+      let produced: ProducedFiles;
+
+      // Refinements depend on their parent's files, so only fresh
+      // generations go through the cache
+      if (!parent && generation.useCache !== false && generationCache.isEnabled()) {
+        const cacheKey = generationCache.buildKey({
+          prompt: generation.prompt,
+          stack: generation.stack,
+          output: generation.output,
+          promptTemplate: prompt.templateId,
+          promptTemplateVersion: prompt.version,
+          systemPrompt: prompt.systemPrompt,
+          validationPolicy: policy
+        });
+        ({ produced, cacheInfo } = await this.produceCached(cacheKey, generation, prompt, policy, hooks, progress, signal));
+      } else {
+        produced = await this.produce(generation, parent, previousFiles, prompt, policy, hooks, progress, signal);
+      }
+
+      const { files, redactions, validation: validationResult } = produced;
+      totals.provider = produced.provider;
+      totals.model = produced.model;
+      const changes: FileChange[] | undefined = parent ? diffFileSets(previousFiles, files) : undefined;
+
+      const validationReport = toValidationReport(validationResult);
+
+      if (!validationResult.isValid) {
+        await Generation.findByIdAndUpdate(generation._id, {
+          status: 'failed',
+          error: validationResult.errors.join(', '),
+          fileChanges: changes,
+          validation: validationReport,
+          testRuns: validationResult.testRuns,
+          redactions,
+          metadata: buildMetadata(generation, totals, cacheInfo)
+        });
+        progress.stage('failed', 'Generated code validation failed');
+        throw new GenerationValidationError(validationResult);
+      }
+
+      if (cacheInfo.cacheKey && !cacheInfo.cacheHit) {
+        await generationCache.set(cacheInfo.cacheKey, {
+          stack: generation.stack,
+          output: generation.output,
+          promptTemplateVersion: prompt.version,
+          files,
+          documentation: produced.documentation,
+          installationScript: produced.installationScript,
+          provider: totals.provider,
+          modelUsed: totals.model,
+          sourceGeneration: generation._id
+        });
+      }
+
+      // The validated output is stored before deploying, so a preview or
+      // deployment that cannot be created never loses it
+      const commit = await commitGeneration(generation, parent, user, files);
+
+      await Generation.findByIdAndUpdate(generation._id, {
+        generatedFiles: files,
+        fileChanges: changes,
+        validation: validationReport,
+        testRuns: validationResult.testRuns,
+        redactions,
+        ...commit,
+        installationScript: produced.installationScript || parent?.installationScript,
+        documentation: produced.documentation || parent?.documentation,
+        metadata: buildMetadata(generation, totals, cacheInfo)
+      });
+
+      // Deploy based on output type
+      throwIfCancelled(signal);
+      let deploymentResult: DeploymentResult = {};
+      let deploymentError: string | undefined;
+      try {
+        deploymentResult = await deploymentService.deploy({
+          generationId: generation._id,
+          userId: generation.user,
+          stack: generation.stack,
+          output: generation.output,
+          files,
+          onStage: (stage, message) => progress.stage(stage, message)
+        });
+      } catch (error: any) {
+        console.error('Deployment failed: - generationPipeline.ts:307', error);
+        deploymentError = error.message;
+        progress.stage('deploying', `Deployment failed: ${error.message}`);
+      }
+
+      const updated = await Generation.findByIdAndUpdate(generation._id, {
+        deploymentUrl: deploymentResult.deploymentUrl,
+        downloadUrl: deploymentResult.downloadUrl,
+        previewUrl: deploymentResult.previewUrl,
+        previewExpiresAt: deploymentResult.previewExpiresAt,
+        deploymentError,
+        status: 'completed',
+        metadata: buildMetadata(generation, totals, cacheInfo)
+      }, { new: true });
+
+      progress.stage('completed');
+
+      return { generation: updated!, changes };
+    } catch (error: any) {
+      if (error instanceof GenerationCancelledError) {
+        progress.stage('cancelled');
+        await Generation.findByIdAndUpdate(generation._id, {
+          status: 'cancelled',
+          error: error.message,
+          metadata: buildMetadata(generation, totals, cacheInfo)
+        }).catch(() => undefined);
+        // Runs cancelled before any tokens were spent do not count against
+        // the daily quota
+        if (totals.usage.totalTokens === 0) {
+          await quotaService.release(generation.user, generation.createdAt).catch(() => undefined);
+        }
+      } else if (!(error instanceof GenerationValidationError)) {
+        progress.stage('failed', error.message);
+        await Generation.findByIdAndUpdate(generation._id, {
+          status: 'failed',
+          error: error.message,
+          metadata: buildMetadata(generation, totals, cacheInfo)
+        }).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  // Serves a stored result when one exists, otherwise produces the files,
+  // sharing the work with any identical generation already in flight.
+  private async produceCached(
+    cacheKey: string,
+    generation: IGeneration,
+    prompt: RenderedPrompt,
+    policy: ValidationPolicy,
+    hooks: GenerationHooks,
+    progress: GenerationReporter,
+    signal?: AbortSignal
+  ): Promise<{ produced: ProducedFiles; cacheInfo: CacheInfo }> {
+    const cached = await generationCache.get(cacheKey);
+
+    if (cached) {
+      progress.stage('parsing', 'Using cached result');
+      return {
+        produced: {
+          files: toPlainFiles(cached.files),
+          documentation: cached.documentation,
+          installationScript: cached.installationScript,
+          ...await reusedValidation(cached.sourceGeneration, policy),
+          provider: cached.provider,
+          model: cached.modelUsed
+        },
+        cacheInfo: { cacheHit: true, cacheKey, cachedFrom: cached.sourceGeneration }
+      };
+    }
+
+    try {
+      const { result, shared } = await generationCache.coalesce(cacheKey, async () => ({
+        sourceGeneration: generation._id,
+        produced: await this.produce(generation, undefined, [], prompt, policy, hooks, progress, signal)
+      }));
+
+      if (!shared) {
+        return { produced: result.produced, cacheInfo: { cacheHit: false, cacheKey } };
+      }
+
+      // Joined another generation's run; its tokens are billed to it
+      progress.stage('parsing', 'Reused an identical in-flight generation');
+      return {
+        produced: result.produced,
+        cacheInfo: { cacheHit: true, cacheKey, cachedFrom: result.sourceGeneration }
+      };
+    } catch (error) {
+      // The run we joined was cancelled by its owner; this one was not
+      if (error instanceof GenerationCancelledError && !signal?.aborted) {
+        return {
+          produced: await this.produce(generation, undefined, [], prompt, policy, hooks, progress, signal),
+          cacheInfo: { cacheHit: false, cacheKey }
+        };
+      }
+      throw error;
+    }
+  }
+
+  // Calls the LLM and validates the result, repairing it while the attempt
+  // budget lasts. Secrets are redacted before each validation, so the report
+  // covers the files that are stored, deployed and downloaded. Invalid
+  // results are returned, not thrown.
+  private async produce(
+    generation: IGeneration,
+    parent: IGeneration | undefined,
+    previousFiles: GeneratedFile[],
+    prompt: RenderedPrompt,
+    policy: ValidationPolicy,
+    hooks: GenerationHooks,
+    progress: GenerationReporter,
+    signal?: AbortSignal
+  ): Promise<ProducedFiles> {
+    let generationResult: GenerationResult;
+    let files: GeneratedFile[];
+
+    if (parent) {
+      generationResult = await llmService.refineCode(generation.prompt, previousFiles, prompt.systemPrompt, generation.stack, hooks);
+      files = applyFileChanges(previousFiles, generationResult.files, generationResult.deletedFiles).files;
+    } else {
+      generationResult = await llmService.generateCode(generation.prompt, prompt.systemPrompt, generation.stack, hooks);
+      files = generationResult.files;
+    }
+    let { provider, model } = generationResult;
+    let redactions: Redaction[];
+    ({ files, redactions } = redactSecrets(files));
+
+    throwIfCancelled(signal);
+    progress.stage('validating', `Validating ${files.length} files`);
+    let validationResult = await validationService.validateCode(files, generation.stack, policy);
+    const maxAttempts = generation.maxRepairAttempts || 0;
+
+    for (let attempt = 1; !validationResult.isValid && attempt <= maxAttempts; attempt++) {
+      const offending = findOffendingFiles(files, validationResult.errors);
+
+      await Generation.findByIdAndUpdate(generation._id, {
+        $push: {
+          repairAttempts: {
+            attempt,
+            errors: validationResult.errors,
+            files: offending.map(file => file.filename)
+          }
+        }
+      });
+
+      progress.stage('repairing', `Repair attempt ${attempt} of ${maxAttempts}`);
+      const repairResult = await llmService.repairCode(files, validationResult.errors, offending, prompt.systemPrompt, generation.stack, hooks);
+      ({ provider, model } = repairResult);
+      files = applyFileChanges(files, repairResult.files, repairResult.deletedFiles).files;
+
+      // Untouched files are already redacted, but their flagged strings are
+      // found again; redactions of replaced or deleted files go with them
+      const replaced = new Set([...repairResult.files.map(file => file.filename), ...(repairResult.deletedFiles || [])]);
+      const redacted = redactSecrets(files);
+      files = redacted.files;
+      redactions = [
+        ...redactions.filter(redaction => redaction.redacted && !replaced.has(redaction.filename)),
+        ...redacted.redactions
+      ];
+
+      throwIfCancelled(signal);
+      progress.stage('validating', `Validating repair attempt ${attempt}`);
+      validationResult = await validationService.validateCode(files, generation.stack, policy);
+    }
+
+    return {
+      files,
+      documentation: generationResult.documentation,
+      installationScript: generationResult.installationScript,
+      validation: validationResult,
+      redactions,
+      provider,
+      model
+    };
+  }
+}
+
+export default new GenerationPipeline();
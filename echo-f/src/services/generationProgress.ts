@@ -0,0 +1,128 @@
+import { Server } from 'socket.io';
+import { PartialFile, extractPartialFiles } from '../utils/generationOutput';
+
+export type GenerationStage =
+  | 'prompting'
+  | 'streaming'
+  | 'parsing'
+  | 'validating'
+  | 'repairing'
+  | 'building'
+  | 'deploying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+interface ProgressTarget {
+  generationId: string;
+  userId: string;
+  projectId?: string;
+}
+
+const STAGE_PROGRESS: { [key in GenerationStage]: number } = {
+  prompting: 5,
+  streaming: 10,
+  parsing: 65,
+  validating: 70,
+  repairing: 75,
+  building: 80,
+  deploying: 90,
+  completed: 100,
+  failed: 100,
+  cancelled: 100
+};
+
+// Rough size of a complete response, used to move the bar while streaming
+const EXPECTED_RESPONSE_CHARS = 16000;
+const STREAM_EMIT_INTERVAL_MS = 250;
+
+export class GenerationReporter {
+  private buffer = '';
+  private lastEmit = 0;
+
+  constructor(private progress: GenerationProgress, private target: ProgressTarget) {}
+
+  stage(stage: GenerationStage, message?: string): void {
+    if (stage === 'prompting') {
+      // A new provider attempt starts from an empty response
+      this.buffer = '';
+    }
+    this.progress.emit(this.target, 'generation-updated', {
+      status: stage,
+      progress: STAGE_PROGRESS[stage],
+      message
+    });
+  }
+
+  token(chunk: string): void {
+    this.buffer += chunk;
+
+    // Providers can deliver hundreds of chunks per second; throttle updates
+    const now = Date.now();
+    if (now - this.lastEmit < STREAM_EMIT_INTERVAL_MS) return;
+    this.lastEmit = now;
+
+    const streamed = Math.min(this.buffer.length / EXPECTED_RESPONSE_CHARS, 1);
+    const progress = Math.round(STAGE_PROGRESS.streaming + streamed * (STAGE_PROGRESS.parsing - STAGE_PROGRESS.streaming - 5));
+
+    this.progress.emit(this.target, 'generation-updated', {
+      status: 'streaming',
+      progress,
+      charactersStreamed: this.buffer.length
+    });
+    this.emitPartialFile();
+  }
+
+  // Progress is best-effort: this runs inside the provider's token callback,
+  // where an exception would abort a good LLM call
+  private emitPartialFile(): void {
+    let files: PartialFile[];
+    try {
+      files = extractPartialFiles(this.buffer);
+    } catch (error) {
+      return;
+    }
+
+    const current = files[files.length - 1];
+    if (!current) return;
+
+    this.progress.emit(this.target, 'generation-file-streamed', {
+      filename: current.filename,
+      content: current.content,
+      complete: current.complete,
+      filesStarted: files.length
+    });
+  }
+}
+
+class GenerationProgress {
+  private io: Server | null = null;
+
+  attach(io: Server): void {
+    this.io = io;
+  }
+
+  forGeneration(target: ProgressTarget): GenerationReporter {
+    return new GenerationReporter(this, target);
+  }
+
+  emit(target: ProgressTarget, event: string, data: object): void {
+    if (!this.io) return;
+
+    const payload = {
+      ...data,
+      generationId: target.generationId,
+      projectId: target.projectId,
+      timestamp: new Date()
+    };
+
+    // Users join a room named after their id on connection
+    let broadcast = this.io.to(target.userId);
+    if (target.projectId) {
+      broadcast = broadcast.to(`project-${target.projectId}`);
+    }
+    broadcast.emit(event, payload);
+  }
+}
+
+export default new GenerationProgress();
@@ -0,0 +1,138 @@
+import Generation from '../models/Generation';
+import generationPipeline from './generationPipeline';
+import generationProgress from './generationProgress';
+import quotaService from './quotaService';
+import generationQueue from './generationQueue';
+
+jest.mock('../models/Generation', () => ({
+  __esModule: true,
+  default: {
+    findOneAndUpdate: jest.fn(),
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+    find: jest.fn()
+  }
+}));
+jest.mock('./generationPipeline', () => ({ __esModule: true, default: { run: jest.fn() } }));
+jest.mock('./generationProgress', () => ({ __esModule: true, default: { forGeneration: jest.fn() } }));
+jest.mock('./quotaService', () => ({ __esModule: true, default: { release: jest.fn() } }));
+
+const generations = Generation as jest.Mocked<any>;
+const pipeline = generationPipeline as jest.Mocked<typeof generationPipeline>;
+const progress = generationProgress as jest.Mocked<typeof generationProgress>;
+const quota = quotaService as jest.Mocked<typeof quotaService>;
+
+const record = (id: string) => ({ _id: id, user: 'user-1', createdAt: new Date('2024-01-01T10:00:00Z') });
+
+// Lets the queue's promise chains run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('generationQueue', () => {
+  let runs: { id: string; signal: AbortSignal; finish: () => void }[];
+  let reporter: { stage: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runs = [];
+    reporter = { stage: jest.fn() };
+    progress.forGeneration.mockReturnValue(reporter as any);
+    // Claims succeed for any pending record
+    generations.findOneAndUpdate.mockImplementation(async (filter: any) => record(filter._id));
+    pipeline.run.mockImplementation((generation: any, _parent, signal) => new Promise(resolve => {
+      runs.push({ id: generation._id, signal: signal!, finish: () => resolve({ generation }) });
+    }));
+  });
+
+  afterEach(async () => {
+    // Leave nothing running for the next test
+    while (runs.length > 0) {
+      runs.shift()!.finish();
+      await flush();
+    }
+  });
+
+  it('runs at most GENERATION_CONCURRENCY jobs at once, in order', async () => {
+    ['a', 'b', 'c'].forEach(id => generationQueue.enqueue(id));
+    await flush();
+
+    expect(runs.map(run => run.id)).toEqual(['a', 'b']);
+    expect(generationQueue.position('c')).toBe(1);
+
+    runs.shift()!.finish();
+    await flush();
+
+    expect(runs.map(run => run.id)).toEqual(['b', 'c']);
+    expect(generationQueue.position('c')).toBeUndefined();
+  });
+
+  it('ignores a job that is already queued or running', async () => {
+    generationQueue.enqueue('a');
+    generationQueue.enqueue('a');
+    await flush();
+    generationQueue.enqueue('a');
+    await flush();
+
+    expect(pipeline.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a job whose record is no longer pending', async () => {
+    generations.findOneAndUpdate.mockResolvedValueOnce(null);
+
+    generationQueue.enqueue('a');
+    await flush();
+
+    expect(generations.findOneAndUpdate).toHaveBeenCalledWith({ _id: 'a', status: 'pending' }, { status: 'generating' }, { new: true });
+    expect(pipeline.run).not.toHaveBeenCalled();
+  });
+
+  it('cancels a waiting job without running it and gives back its quota', async () => {
+    ['a', 'b', 'c'].forEach(id => generationQueue.enqueue(id));
+    await flush();
+
+    expect(await generationQueue.cancel('c')).toBe(true);
+
+    expect(generations.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'c', status: 'pending' },
+      { status: 'cancelled', error: 'Generation was cancelled' },
+      { new: true }
+    );
+    expect(quota.release).toHaveBeenCalledWith('user-1', record('c').createdAt);
+    expect(reporter.stage).toHaveBeenCalledWith('cancelled');
+    expect(generationQueue.position('c')).toBeUndefined();
+
+    runs.shift()!.finish();
+    runs.shift()!.finish();
+    await flush();
+
+    expect(pipeline.run).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts the signal of a running job', async () => {
+    generationQueue.enqueue('a');
+    await flush();
+
+    expect(await generationQueue.cancel('a')).toBe(true);
+
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(quota.release).not.toHaveBeenCalled();
+  });
+
+  it('reports jobs it does not know about', async () => {
+    expect(await generationQueue.cancel('unknown')).toBe(false);
+  });
+
+  it('re-queues interrupted and pending jobs on recovery', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    generations.find.mockReturnValue({
+      sort: () => ({ select: async () => [{ _id: 'a' }, { _id: 'b' }] })
+    });
+
+    await generationQueue.recover();
+    await flush();
+
+    expect(generations.updateMany).toHaveBeenCalledWith({ status: 'generating' }, { status: 'pending' });
+    expect(runs.map(run => run.id)).toEqual(['a', 'b']);
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,115 @@
+import Generation from '../models/Generation';
+import generationPipeline from './generationPipeline';
+import generationProgress from './generationProgress';
+import quotaService from './quotaService';
+
+// In-process worker pool for generation jobs. Jobs are the Generation
+// records themselves: the queue only holds ids, and a record's status is the
+// source of truth, so pending work survives a restart via recover().
+class GenerationQueue {
+  private concurrency = Math.max(parseInt(process.env.GENERATION_CONCURRENCY || '2'), 1);
+  private waiting: string[] = [];
+  private running = new Map<string, AbortController>();
+
+  enqueue(generationId: string): void {
+    if (this.waiting.includes(generationId) || this.running.has(generationId)) return;
+
+    this.waiting.push(generationId);
+    this.drain();
+  }
+
+  position(generationId: string): number | undefined {
+    const index = this.waiting.indexOf(generationId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  // Returns false when the job is neither queued nor running in this process
+  async cancel(generationId: string): Promise<boolean> {
+    const index = this.waiting.indexOf(generationId);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+      const generation = await Generation.findOneAndUpdate(
+        { _id: generationId, status: 'pending' },
+        { status: 'cancelled', error: 'Generation was cancelled' },
+        { new: true }
+      );
+
+      if (generation) {
+        // Never started, so nothing was spent
+        await quotaService.release(generation.user, generation.createdAt);
+        generationProgress.forGeneration({
+          generationId,
+          userId: generation.user.toString(),
+          projectId: generation.project?.toString()
+        }).stage('cancelled');
+      }
+      return true;
+    }
+
+    const controller = this.running.get(generationId);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    return false;
+  }
+
+  // Re-queues work interrupted by a restart. Jobs that were mid-flight start
+  // over from the beginning.
+  async recover(): Promise<void> {
+    await Generation.updateMany({ status: 'generating' }, { status: 'pending' });
+
+    const pending = await Generation.find({ status: 'pending' })
+      .sort({ createdAt: 1 })
+      .select('_id');
+
+    for (const generation of pending) {
+      this.enqueue(generation._id.toString());
+    }
+
+    if (pending.length > 0) {
+      console.log(`Recovered ${pending.length} pending generations - generationQueue.ts:69`);
+    }
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const generationId = this.waiting.shift()!;
+      const controller = new AbortController();
+      this.running.set(generationId, controller);
+
+      this.process(generationId, controller.signal)
+        .catch(error => {
+          console.error(`Generation job ${generationId} failed: - generationQueue.ts:81`, error.message);
+        })
+        .finally(() => {
+          this.running.delete(generationId);
+          this.drain();
+        });
+    }
+  }
+
+  private async process(generationId: string, signal: AbortSignal): Promise<void> {
+    // Claim the job; it may have been cancelled while it was waiting
+    const generation = await Generation.findOneAndUpdate(
+      { _id: generationId, status: 'pending' },
+      { status: 'generating' },
+      { new: true }
+    );
+    if (!generation) return;
+
+    const parent = generation.parent ? await Generation.findById(generation.parent) : undefined;
+    if (generation.parent && !parent) {
+      await Generation.findByIdAndUpdate(generation._id, {
+        status: 'failed',
+        error: 'Parent generation no longer exists'
+      });
+      return;
+    }
+
+    await generationPipeline.run(generation, parent || undefined, signal);
+  }
+}
+
+export default new GenerationQueue();
@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import type { GitError } from './gitService';
+
+const repositoryName = (n: number) => `project-${n.toString(16).padStart(24, '0')}`;
+const generationId = (n: number) => `65a1b2c3d4e5f60718293a${n.toString(16).padStart(2, '0')}`;
+const file = (filename: string, content: string) => ({ filename, content, language: 'text' });
+
+describe('gitService', () => {
+  let root: string;
+  let gitService: typeof import('./gitService').default;
+
+  // Repositories and work trees are created under the working directory,
+  // which the service reads when it is loaded
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'echo-f-git-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(root);
+    jest.isolateModules(() => {
+      gitService = require('./gitService').default;
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(root);
+  });
+
+  it('records a generation as a commit with its prompt, author and trailer', async () => {
+    const repository = repositoryName(1);
+
+    const sha = await gitService.commit({
+      repository,
+      generationId: generationId(1),
+      files: [file('index.html', '<h1>Hi</h1>\n')],
+      message: 'Build a landing page',
+      author: { name: 'Ada', email: 'ada@example.com' }
+    });
+
+    const { commits, total } = await gitService.history(repository, { limit: 10, skip: 0 });
+    expect(sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(total).toBe(1);
+    expect(commits).toEqual([expect.objectContaining({
+      sha,
+      parents: [],
+      author: { name: 'Ada', email: 'ada@example.com' },
+      message: 'Build a landing page',
+      generationId: generationId(1)
+    })]);
+  });
+
+  it('builds on main, or on the given parent for a refinement', async () => {
+    const repository = repositoryName(2);
+    const commit = (n: number, content: string, parent?: string) => gitService.commit({
+      repository,
+      generationId: generationId(n),
+      files: [file('app.js', content)],
+      message: `Generation ${n}`,
+      parent
+    });
+
+    const first = await commit(1, 'v1\n');
+    const second = await commit(2, 'v2\n');
+    const branched = await commit(3, 'v1 refined\n', first);
+
+    const { commits, total } = await gitService.history(repository, { limit: 10, skip: 0 });
+    const parentsOf = (sha: string) => commits.find(item => item.sha === sha)?.parents;
+    expect(total).toBe(3);
+    expect(parentsOf(second)).toEqual([first]);
+    expect(parentsOf(branched)).toEqual([first]);
+  });
+
+  it('serializes concurrent commits to one repository', async () => {
+    const repository = repositoryName(3);
+    const [first, second] = await Promise.all([1, 2].map(n => gitService.commit({
+      repository,
+      generationId: generationId(n),
+      files: [file('app.js', `v${n}\n`)],
+      message: `Generation ${n}`
+    })));
+
+    const { commits } = await gitService.history(repository, { limit: 10, skip: 0 });
+    expect(commits.find(item => item.sha === second)?.parents).toEqual([first]);
+  });
+
+  it('pages through the history', async () => {
+    const repository = repositoryName(4);
+    for (const n of [1, 2, 3]) {
+      await gitService.commit({ repository, generationId: generationId(n), files: [file('a.txt', `${n}\n`)], message: `Generation ${n}` });
+    }
+
+    const { commits, total } = await gitService.history(repository, { limit: 1, skip: 1 });
+    expect(total).toBe(3);
+    expect(commits.map(item => item.generationId)).toEqual([generationId(2)]);
+  });
+
+  it('diffs two commits', async () => {
+    const repository = repositoryName(5);
+    const from = await gitService.commit({
+      repository,
+      generationId: generationId(1),
+      files: [file('a.txt', 'one\ntwo\n'), file('b.txt', 'gone\n')],
+      message: 'First'
+    });
+    const to = await gitService.commit({
+      repository,
+      generationId: generationId(2),
+      files: [file('a.txt', 'one\nthree\n'), file('c.txt', 'new\n')],
+      message: 'Second'
+    });
+
+    const diff = await gitService.diff(repository, from, to.slice(0, 7));
+
+    expect(diff.from).toBe(from);
+    expect(diff.to).toBe(to);
+    expect(diff.files).toEqual([
+      { filename: 'a.txt', status: 'modified', additions: 1, deletions: 1 },
+      { filename: 'b.txt', status: 'deleted', additions: 0, deletions: 1 },
+      { filename: 'c.txt', status: 'added', additions: 1, deletions: 0 }
+    ]);
+    expect(diff.diff).toContain('+three');
+  });
+
+  it('rejects revisions that are not commit ids of the repository', async () => {
+    const repository = repositoryName(6);
+    const sha = await gitService.commit({ repository, generationId: generationId(1), files: [file('a.txt', 'a\n')], message: 'First' });
+
+    for (const revision of ['HEAD~1', '--output=/tmp/x', 'ffffffffffffffffffffffffffffffffffffffff']) {
+      await expect(gitService.diff(repository, sha, revision)).rejects.toMatchObject({
+        name: 'GitError',
+        statusCode: 404
+      } as Partial<GitError>);
+    }
+  });
+
+  it('rejects repository names that could leave the repositories directory', async () => {
+    await expect(gitService.history('../etc', { limit: 1, skip: 0 })).rejects.toThrow('Invalid repository name: ../etc');
+  });
+
+  it('bundles every ref, and nothing for an empty repository', async () => {
+    const repository = repositoryName(7);
+    expect(await gitService.bundle(repository)).toBeNull();
+    expect(await gitService.history(repository, { limit: 10, skip: 0 })).toEqual({ commits: [], total: 0 });
+
+    await gitService.commit({ repository, generationId: generationId(1), files: [file('a.txt', 'a\n')], message: 'First' });
+    const bundlePath = await gitService.bundle(repository);
+
+    try {
+      expect(bundlePath).not.toBeNull();
+      expect((await fs.stat(bundlePath!)).size).toBeGreaterThan(0);
+    } finally {
+      if (bundlePath) await fs.remove(bundlePath);
+    }
+  });
+});
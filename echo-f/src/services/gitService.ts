@@ -0,0 +1,270 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { GeneratedFile } from '../utils/generationOutput';
+import { Workspace } from '../utils/workspace';
+
+export class GitError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface CommitOptions {
+  repository: string;
+  generationId: string;
+  files: GeneratedFile[];
+  message: string;
+  // Defaults to the committer
+  author?: CommitAuthor;
+  // Commit the files build on; defaults to the tip of the main branch
+  parent?: string;
+}
+
+export interface CommitInfo {
+  sha: string;
+  parents: string[];
+  author: CommitAuthor;
+  date: string;
+  message: string;
+  generationId?: string;
+}
+
+export interface CommitDiff {
+  from: string;
+  to: string;
+  files: {
+    filename: string;
+    status: 'added' | 'modified' | 'deleted';
+    additions: number;
+    deletions: number;
+  }[];
+  diff: string;
+}
+
+const REPOSITORIES_DIR = path.join(process.cwd(), 'repositories');
+const MAIN_BRANCH = 'refs/heads/main';
+const GIT_TIMEOUT_MS = 30000;
+const GIT_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+const COMMITTER: CommitAuthor = {
+  name: process.env.GIT_COMMITTER_NAME || 'EchoF',
+  email: process.env.GIT_COMMITTER_EMAIL || 'noreply@echo-f.com'
+};
+
+// Full or abbreviated object names only; anything else could be read as an
+// option or a revision expression
+const COMMIT_SHA = /^[0-9a-f]{4,40}$/;
+const GENERATION_TRAILER = /^Generation: ([0-9a-f]{24})$/m;
+
+const STATUS_NAMES: { [key: string]: CommitDiff['files'][number]['status'] } = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted'
+};
+
+// Every project has a bare repository under <cwd>/repositories in which each
+// generation is a commit: the prompt is the message and the requesting user
+// the author. refs/generations/<id> points at each generation's commit and
+// main at the latest one.
+class GitService {
+  // Commits to one repository are serialized so main moves in order
+  private locks = new Map<string, Promise<unknown>>();
+
+  // Generations outside a project share a repository with their refinements,
+  // named after the first generation of the chain
+  repositoryFor(projectId?: string, rootGenerationId?: string): string {
+    return projectId ? `project-${projectId}` : `generation-${rootGenerationId}`;
+  }
+
+  async commit(options: CommitOptions): Promise<string> {
+    const { repository, generationId, files, message, author, parent } = options;
+
+    return this.exclusive(repository, async () => {
+      const gitDir = await this.ensureRepository(repository);
+      const indexFile = path.join(gitDir, `index-${crypto.randomBytes(4).toString('hex')}`);
+      const workspace = await Workspace.create('git-worktrees', files);
+
+      try {
+        const env = { GIT_INDEX_FILE: indexFile };
+        // -f so that a generated .gitignore cannot leave files out
+        await this.git(gitDir, ['--work-tree', workspace.root, 'add', '-A', '-f', '.'], env);
+        const tree = (await this.git(gitDir, ['write-tree'], env)).trim();
+
+        const parentSha = (parent && await this.resolveCommit(repository, parent))
+          || await this.resolveCommit(repository, MAIN_BRANCH);
+        const sha = (await this.git(gitDir, [
+          'commit-tree', tree,
+          ...(parentSha ? ['-p', parentSha] : []),
+          '-m', `${message.trim() || 'Generated files'}\n\nGeneration: ${generationId}`
+        ], author && {
+          GIT_AUTHOR_NAME: author.name,
+          GIT_AUTHOR_EMAIL: author.email
+        })).trim();
+
+        await this.git(gitDir, ['update-ref', `refs/generations/${generationId}`, sha]);
+        await this.git(gitDir, ['update-ref', MAIN_BRANCH, sha]);
+        return sha;
+      } finally {
+        await workspace.remove().catch(() => undefined);
+        await fs.remove(indexFile).catch(() => undefined);
+      }
+    });
+  }
+
+  // Commits reachable from any ref, newest first
+  async history(repository: string, options: { limit: number; skip: number }): Promise<{ commits: CommitInfo[]; total: number }> {
+    if (!await this.hasCommits(repository)) return { commits: [], total: 0 };
+
+    const gitDir = this.gitDir(repository);
+    const total = parseInt(await this.git(gitDir, ['rev-list', '--all', '--count']));
+    const output = await this.git(gitDir, [
+      'log', '--all', '--date-order',
+      `--max-count=${options.limit}`,
+      `--skip=${options.skip}`,
+      '--format=%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%B%x1e'
+    ]);
+
+    const commits = output.split('\x1e').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const [sha, parents, name, email, date, body] = entry.split('\x1f');
+      const generationId = body.match(GENERATION_TRAILER)?.[1];
+
+      return {
+        sha,
+        parents: parents ? parents.split(' ') : [],
+        author: { name, email },
+        date,
+        message: body.replace(GENERATION_TRAILER, '').trim(),
+        generationId
+      };
+    });
+
+    return { commits, total };
+  }
+
+  async diff(repository: string, from: string, to: string): Promise<CommitDiff> {
+    const [fromSha, toSha] = await Promise.all([from, to].map(async revision => {
+      const sha = COMMIT_SHA.test(revision) ? await this.resolveCommit(repository, revision) : null;
+      if (!sha) throw new GitError(`Unknown commit: ${revision}`, 404);
+      return sha;
+    }));
+
+    const gitDir = this.gitDir(repository);
+    const [numstat, nameStatus, diff] = await Promise.all([
+      this.git(gitDir, ['diff', '--no-renames', '--numstat', '-z', fromSha, toSha]),
+      this.git(gitDir, ['diff', '--no-renames', '--name-status', '-z', fromSha, toSha]),
+      this.git(gitDir, ['diff', '--no-renames', fromSha, toSha])
+    ]);
+
+    // -z output: "<status>\0<path>\0" and "<added>\t<deleted>\t<path>\0"
+    const statuses = new Map<string, string>();
+    const statusFields = nameStatus.split('\0');
+    for (let i = 0; i + 1 < statusFields.length; i += 2) {
+      statuses.set(statusFields[i + 1], statusFields[i]);
+    }
+
+    const files = numstat.split('\0').filter(Boolean).map(line => {
+      const [additions, deletions, ...filename] = line.split('\t');
+      const name = filename.join('\t');
+      return {
+        filename: name,
+        status: STATUS_NAMES[statuses.get(name) || 'M'] || 'modified',
+        // Binary files are reported as "-"
+        additions: parseInt(additions) || 0,
+        deletions: parseInt(deletions) || 0
+      };
+    });
+
+    return { from: fromSha, to: toSha, files, diff };
+  }
+
+  // Writes a bundle of every ref to a temporary file; the caller removes it.
+  // Returns null when the repository has no commits yet.
+  async bundle(repository: string): Promise<string | null> {
+    if (!await this.hasCommits(repository)) return null;
+
+    const bundlePath = path.join(os.tmpdir(), `echo-f-${repository}-${crypto.randomBytes(4).toString('hex')}.bundle`);
+    await this.git(this.gitDir(repository), ['bundle', 'create', '-q', bundlePath, '--all']);
+    return bundlePath;
+  }
+
+  private async resolveCommit(repository: string, revision: string): Promise<string | null> {
+    const output = await this.git(this.gitDir(repository), ['rev-parse', '--verify', '-q', `${revision}^{commit}`])
+      .catch(() => '');
+    return output.trim() || null;
+  }
+
+  private async hasCommits(repository: string): Promise<boolean> {
+    return Boolean(await fs.pathExists(this.gitDir(repository)) && await this.resolveCommit(repository, MAIN_BRANCH));
+  }
+
+  private async ensureRepository(repository: string): Promise<string> {
+    const gitDir = this.gitDir(repository);
+    if (await fs.pathExists(path.join(gitDir, 'HEAD'))) return gitDir;
+
+    await fs.ensureDir(gitDir);
+    await this.git(gitDir, ['init', '--bare', '-q']);
+    await this.git(gitDir, ['symbolic-ref', 'HEAD', MAIN_BRANCH]);
+    return gitDir;
+  }
+
+  private gitDir(repository: string): string {
+    if (!/^[a-z]+-[0-9a-f]{24}$/.test(repository)) {
+      throw new GitError(`Invalid repository name: ${repository}`);
+    }
+    return path.join(REPOSITORIES_DIR, `${repository}.git`);
+  }
+
+  private async exclusive<T>(repository: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(repository) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.locks.set(repository, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(repository) === current) this.locks.delete(repository);
+    }
+  }
+
+  // Runs git without a shell and without the server's environment, so
+  // neither user configuration nor server secrets reach it
+  private git(gitDir: string, args: string[], env: { [key: string]: string } = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile('git', ['--git-dir', gitDir, ...args], {
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_OUTPUT_BYTES,
+        env: {
+          PATH: process.env.PATH,
+          LANG: 'C.UTF-8',
+          GIT_CONFIG_NOSYSTEM: '1',
+          GIT_CONFIG_GLOBAL: os.devNull,
+          GIT_AUTHOR_NAME: COMMITTER.name,
+          GIT_AUTHOR_EMAIL: COMMITTER.email,
+          GIT_COMMITTER_NAME: COMMITTER.name,
+          GIT_COMMITTER_EMAIL: COMMITTER.email,
+          ...env
+        },
+        windowsHide: true
+      }, (error, stdout, stderr) => {
+        if (error) {
+          reject(new GitError(`git ${args[0] === '--work-tree' ? args[2] : args[0]} failed: ${stderr.toString().trim() || error.message}`));
+        } else {
+          resolve(stdout.toString());
+        }
+      });
+    });
+  }
+}
+
+export default new GitService();
@@ -0,0 +1,209 @@
+import llmService from './llmService';
+import providerRegistry from './providers/registry';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './providers/types';
+import { GenerationOutputError } from '../utils/generationOutput';
+import { GenerationCancelledError } from '../utils/cancellation';
+
+jest.mock('./providers/registry', () => ({
+  __esModule: true,
+  default: {
+    getChain: jest.fn(),
+    getTimeout: jest.fn()
+  }
+}));
+
+const registry = providerRegistry as jest.Mocked<typeof providerRegistry>;
+
+const MANIFEST = JSON.stringify({ files: [{ path: 'index.html', content: '<h1>Hi</h1>' }] });
+
+const respond = (provider: string, content: string = MANIFEST): CompletionResponse => ({
+  content,
+  provider,
+  model: `${provider}-model`,
+  usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 }
+});
+
+const fakeProvider = (name: string, complete: (request: CompletionRequest) => Promise<CompletionResponse>): jest.Mocked<LLMProvider> => ({
+  name,
+  model: `${name}-model`,
+  isConfigured: jest.fn(() => true),
+  complete: jest.fn(complete)
+});
+
+const failing = (message: string = 'upstream error') => () => Promise.reject(new Error(message));
+const never = () => new Promise<CompletionResponse>(() => undefined);
+
+describe('llmService.generateCode', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    registry.getTimeout.mockReturnValue(1000);
+    // Two retries per provider, without waiting between them
+    Object.assign(llmService, { maxRetries: 2, retryBaseDelay: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the first provider\'s parsed result', async () => {
+    const openai = fakeProvider('openai', async () => respond('openai'));
+    const gemini = fakeProvider('gemini', async () => respond('gemini'));
+    registry.getChain.mockReturnValue([openai, gemini]);
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js');
+
+    expect(result.provider).toBe('openai');
+    expect(result.files).toEqual([{ filename: 'index.html', language: 'html', content: '<h1>Hi</h1>' }]);
+    expect(gemini.complete).not.toHaveBeenCalled();
+  });
+
+  it('retries a failing provider before giving up on it', async () => {
+    const openai = fakeProvider('openai', failing());
+    openai.complete.mockRejectedValueOnce(new Error('rate limited')).mockResolvedValueOnce(respond('openai'));
+    registry.getChain.mockReturnValue([openai]);
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js');
+
+    expect(result.provider).toBe('openai');
+    expect(openai.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the next provider once the retries are spent', async () => {
+    const openai = fakeProvider('openai', failing());
+    const gemini = fakeProvider('gemini', async () => respond('gemini'));
+    registry.getChain.mockReturnValue([openai, gemini]);
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js');
+
+    expect(openai.complete).toHaveBeenCalledTimes(3);
+    expect(gemini.complete).toHaveBeenCalledTimes(1);
+    expect(result.provider).toBe('gemini');
+  });
+
+  it('treats a provider that does not answer in time as failed', async () => {
+    registry.getTimeout.mockReturnValue(10);
+    const openai = fakeProvider('openai', never);
+    const gemini = fakeProvider('gemini', async () => respond('gemini'));
+    registry.getChain.mockReturnValue([openai, gemini]);
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js');
+
+    expect(result.provider).toBe('gemini');
+    expect(openai.complete.mock.calls[0][0].signal?.aborted).toBe(true);
+  });
+
+  it('moves on without retrying when the output cannot be parsed', async () => {
+    const openai = fakeProvider('openai', async () => respond('openai', 'Sorry, I cannot help with that.'));
+    const gemini = fakeProvider('gemini', async () => respond('gemini'));
+    registry.getChain.mockReturnValue([openai, gemini]);
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js');
+
+    expect(openai.complete).toHaveBeenCalledTimes(1);
+    expect(result.provider).toBe('gemini');
+  });
+
+  it('reports unparseable output when every provider fails', async () => {
+    registry.getChain.mockReturnValue([
+      fakeProvider('openai', failing()),
+      fakeProvider('gemini', async () => respond('gemini', 'no files here'))
+    ]);
+
+    await expect(llmService.generateCode('Build a page', 'system', 'html-css-js')).rejects.toBeInstanceOf(GenerationOutputError);
+  });
+
+  it('fails with a generic error when every provider errors', async () => {
+    registry.getChain.mockReturnValue([fakeProvider('openai', failing()), fakeProvider('gemini', failing())]);
+
+    await expect(llmService.generateCode('Build a page', 'system', 'html-css-js')).rejects.toThrow('Failed to generate code');
+  });
+
+  it('fails when no provider is configured', async () => {
+    registry.getChain.mockReturnValue([]);
+
+    await expect(llmService.generateCode('Build a page', 'system', 'html-css-js')).rejects.toThrow('No AI provider configured');
+  });
+
+  it('stops the chain when the generation is cancelled', async () => {
+    const controller = new AbortController();
+    const openai = fakeProvider('openai', never);
+    const gemini = fakeProvider('gemini', async () => respond('gemini'));
+    registry.getChain.mockReturnValue([openai, gemini]);
+
+    const pending = llmService.generateCode('Build a page', 'system', 'html-css-js', { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(GenerationCancelledError);
+    expect(openai.complete).toHaveBeenCalledTimes(1);
+    expect(openai.complete.mock.calls[0][0].signal?.aborted).toBe(true);
+    expect(gemini.complete).not.toHaveBeenCalled();
+  });
+});
+
+describe('llmService usage reporting', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    registry.getTimeout.mockReturnValue(1000);
+    Object.assign(llmService, { maxRetries: 0, retryBaseDelay: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports every attempt, including unparseable ones', async () => {
+    registry.getChain.mockReturnValue([
+      fakeProvider('openai', async () => respond('openai', 'not a manifest')),
+      fakeProvider('gemini', async () => respond('gemini'))
+    ]);
+    const usage = jest.fn();
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js', { usage });
+
+    expect(usage.mock.calls.map(([attempt]) => attempt.provider)).toEqual(['openai', 'gemini']);
+    expect(usage).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'openai-model',
+      usage: { promptTokens: 10, completionTokens: 20, totalTokens: 30 }
+    }));
+    expect(result.usage.totalTokens).toBe(30);
+  });
+
+  it('prices known models', async () => {
+    registry.getChain.mockReturnValue([
+      fakeProvider('openai', async () => ({ ...respond('openai'), model: 'gpt-4o-mini', usage: { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 } }))
+    ]);
+    const usage = jest.fn();
+
+    const result = await llmService.generateCode('Build a page', 'system', 'html-css-js', { usage });
+
+    expect(result.cost).toBe(0.00075);
+    expect(usage.mock.calls[0][0].cost).toBe(0.00075);
+  });
+
+  it('estimates the usage of a request that failed while streaming', async () => {
+    registry.getChain.mockReturnValue([
+      fakeProvider('openai', async request => {
+        request.onToken?.('12345678');
+        throw new Error('connection reset');
+      }),
+      fakeProvider('gemini', async () => respond('gemini'))
+    ]);
+    const usage = jest.fn();
+
+    await llmService.generateCode('1234', '1234', 'html-css-js', { usage });
+
+    expect(usage.mock.calls[0][0]).toEqual(expect.objectContaining({
+      provider: 'openai',
+      usage: { promptTokens: 2, completionTokens: 2, totalTokens: 4 }
+    }));
+  });
+
+  it('does not report requests that failed before answering', async () => {
+    registry.getChain.mockReturnValue([fakeProvider('openai', failing()), fakeProvider('gemini', async () => respond('gemini'))]);
+    const usage = jest.fn();
+
+    await llmService.generateCode('Build a page', 'system', 'html-css-js', { usage });
+
+    expect(usage.mock.calls.map(([attempt]) => attempt.provider)).toEqual(['gemini']);
+  });
+});
@@ -1,161 +1,238 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-interface GeneratedFile {
-  filename: string;
-  content: string;
-  language: string;
-}
-
-interface GenerationResult {
+import {
+  GeneratedFile,
+  GenerationOutputError,
+  REFINEMENT_FORMAT_INSTRUCTIONS,
+  parseGenerationOutput
+} from '../utils/generationOutput';
+import providerRegistry from './providers/registry';
+import { CompletionResponse, LLMProvider } from './providers/types';
+import { GenerationStage } from './generationProgress';
+import { TokenUsage, calculateCost, estimateTokens } from '../config/pricing';
+import { GenerationCancelledError, throwIfCancelled, whenCancelled } from '../utils/cancellation';
+
+export interface GenerationResult {
   files: GeneratedFile[];
   documentation?: string;
   installationScript?: string;
+  deletedFiles?: string[];
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  cost?: number;
+}
+
+// Tokens spent by one provider request
+export interface AttemptUsage {
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  cost?: number;
+}
+
+export interface GenerationHooks {
+  stage?: (stage: GenerationStage, message?: string) => void;
+  token?: (chunk: string) => void;
+  // Called for every provider request, including failed, retried and
+  // unparseable ones, so callers can bill the whole chain
+  usage?: (attempt: AttemptUsage) => void;
+  signal?: AbortSignal;
 }
 
 class LLMService {
-  private openai: OpenAI | null = null;
-  private gemini: GoogleGenerativeAI | null = null;
-
-  constructor() {
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
-    }
+  private maxRetries = parseInt(process.env.LLM_MAX_RETRIES || '2');
+  private retryBaseDelay = parseInt(process.env.LLM_RETRY_BASE_MS || '1000');
 
-    if (process.env.GEMINI_API_KEY) {
-      this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    }
+  // systemPrompt comes from promptTemplateService so every generation can be
+  // traced back to the template version that produced it.
+  async generateCode(prompt: string, systemPrompt: string, stack: string, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+    return this.runProviderChain(systemPrompt, prompt, stack, hooks, response => this.parseGeneratedContent(response, stack));
   }
 
-  async generateCode(prompt: string, stack: string, output: string): Promise<GenerationResult> {
-    const systemPrompt = this.getSystemPrompt(stack, output);
+  // Asks for changes on top of an existing set of files. The result only
+  // holds files the model added or rewrote, plus any deletedFiles.
+  async refineCode(instruction: string, previousFiles: GeneratedFile[], systemPrompt: string, stack: string, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+    const refinementPrompt = `${systemPrompt}
 
-    try {
-      if (this.openai) {
-        return await this.generateWithOpenAI(prompt, systemPrompt, stack);
-      } else if (this.gemini) {
-        return await this.generateWithGemini(prompt, systemPrompt, stack);
-      } else {
-        throw new Error('No AI provider configured');
-      }
-    } catch (error) {
-      console.error('AI generation error: - llmService.ts:44', error);
-      throw new Error('Failed to generate code');
-    }
+${REFINEMENT_FORMAT_INSTRUCTIONS}`;
+
+    const prompt = `Current project files:
+${JSON.stringify({ files: previousFiles.map(file => ({ path: file.filename, language: file.language, content: file.content })) })}
+
+Requested change:
+${instruction}`;
+
+    return this.runProviderChain(refinementPrompt, prompt, stack, hooks, response => this.parseRefinedContent(response));
   }
 
-  private getSystemPrompt(stack: string, output: string): string {
-    const basePrompt = `You are an expert software developer. Generate clean, production-ready code that follows best practices and security standards.
+  // Feeds validation errors back to the model. Only the offending files are
+  // sent in full; the rest of the project is listed by path for context.
+  async repairCode(files: GeneratedFile[], errors: string[], offendingFiles: GeneratedFile[], systemPrompt: string, stack: string, hooks: GenerationHooks = {}): Promise<GenerationResult> {
+    const refinementPrompt = `${systemPrompt}
 
-IMPORTANT: Return ONLY valid, runnable code. Do not include any explanatory text, comments about the code, or markdown formatting unless it's part of the actual code.
+${REFINEMENT_FORMAT_INSTRUCTIONS}`;
 
-For ${stack} projects, ensure:
-- Modern coding standards and best practices
-- Proper error handling
-- Security considerations
-- Clean, readable code structure
-- Appropriate dependencies and imports`;
+    const prompt = `The project below failed validation. Fix every error without changing unrelated behaviour.
 
-    if (output === 'preview') {
-      return `${basePrompt}
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
 
-Generate a simple, functional example that demonstrates the core features. Keep it minimal but complete.`;
-    }
+All project files:
+${files.map(file => `- ${file.filename}`).join('\n')}
 
-    return basePrompt;
+Files with errors:
+${JSON.stringify({ files: offendingFiles.map(file => ({ path: file.filename, language: file.language, content: file.content })) })}`;
+
+    return this.runProviderChain(refinementPrompt, prompt, stack, hooks, response => this.parseRefinedContent(response));
   }
 
-  private async generateWithOpenAI(prompt: string, systemPrompt: string, stack: string): Promise<GenerationResult> {
-    if (!this.openai) throw new Error('OpenAI not configured');
-
-    const completion = await this.openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 4000,
-      temperature: 0.3
-    });
+  private async runProviderChain(
+    systemPrompt: string,
+    prompt: string,
+    stack: string,
+    hooks: GenerationHooks,
+    parse: (response: CompletionResponse) => GenerationResult
+  ): Promise<GenerationResult> {
+    const chain = providerRegistry.getChain();
+
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured');
+    }
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) throw new Error('No content generated');
+    let lastError: any;
+
+    // Walk the fallback chain; a provider is abandoned once its retries are
+    // spent or it returns output that cannot be parsed.
+    for (const provider of chain) {
+      throwIfCancelled(hooks.signal);
+
+      try {
+        const response = await this.completeWithRetry(provider, systemPrompt, prompt, stack, hooks);
+        hooks.stage?.('parsing', `Parsing ${provider.name} response`);
+        return parse(response);
+      } catch (error) {
+        if (error instanceof GenerationCancelledError) {
+          throw error;
+        }
+        console.error(`AI generation error (${provider.name}): - llmService.ts:103`, error);
+        lastError = error;
+      }
+    }
 
-    return this.parseGeneratedContent(content, stack);
+    if (lastError instanceof GenerationOutputError) {
+      throw lastError;
+    }
+    throw new Error('Failed to generate code');
   }
 
-  private async generateWithGemini(prompt: string, systemPrompt: string, stack: string): Promise<GenerationResult> {
-    if (!this.gemini) throw new Error('Gemini not configured');
+  private async completeWithRetry(provider: LLMProvider, systemPrompt: string, prompt: string, stack: string, hooks: GenerationHooks): Promise<CompletionResponse> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        hooks.stage?.('prompting', `Requesting ${provider.name} (attempt ${attempt + 1})`);
+        return await this.completeWithTimeout(provider, systemPrompt, prompt, stack, hooks);
+      } catch (error) {
+        if (error instanceof GenerationCancelledError || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.retryBaseDelay * Math.pow(2, attempt);
+        attempt++;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        throwIfCancelled(hooks.signal);
+      }
+    }
+  }
 
-    const model = this.gemini.getGenerativeModel({ model: 'gemini-pro' });
+  private async completeWithTimeout(provider: LLMProvider, systemPrompt: string, prompt: string, stack: string, hooks: GenerationHooks): Promise<CompletionResponse> {
+    const timeout = providerRegistry.getTimeout(provider.name);
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
 
-    const result = await model.generateContent([
-      systemPrompt,
-      prompt
-    ]);
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`${provider.name} timed out after ${timeout}ms`));
+      }, timeout);
+    });
 
-    const content = result.response.text();
-    if (!content) throw new Error('No content generated');
+    // Cancelling the generation aborts the in-flight provider request too
+    const abortRequest = () => controller.abort();
+    hooks.signal?.addEventListener('abort', abortRequest, { once: true });
 
-    return this.parseGeneratedContent(content, stack);
-  }
+    let streamed = '';
+    const onToken = (chunk: string) => {
+      streamed += chunk;
+      hooks.token?.(chunk);
+    };
 
-  private parseGeneratedContent(content: string, stack: string): GenerationResult {
-    // This is a simplified parser - in production, you'd want more robust parsing
-    const files: GeneratedFile[] = [];
+    const pending: Promise<CompletionResponse>[] = [
+      provider.complete({ systemPrompt, prompt, stack, signal: controller.signal, onToken }),
+      timeoutPromise
+    ];
+    if (hooks.signal) {
+      pending.push(whenCancelled(hooks.signal));
+    }
 
-    // For now, assume single file generation
-    // In production, you'd parse multi-file outputs
-    const language = this.getLanguageFromStack(stack);
+    try {
+      const response = await Promise.race(pending);
+      // Reported before parsing, so unparseable output is billed too
+      this.reportUsage(hooks, response.provider, response.model, response.usage);
+      return response;
+    } catch (error) {
+      // A request that failed after the model started answering was billed
+      // for the prompt and what it streamed; one that never got an answer is
+      // assumed not to have been
+      if (streamed) {
+        const promptTokens = estimateTokens(systemPrompt + prompt);
+        const completionTokens = estimateTokens(streamed);
+        this.reportUsage(hooks, provider.name, provider.model, {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      hooks.signal?.removeEventListener('abort', abortRequest);
+    }
+  }
 
-    files.push({
-      filename: this.getDefaultFilename(stack),
-      content: content.trim(),
-      language
-    });
+  private reportUsage(hooks: GenerationHooks, provider: string, model: string, usage: TokenUsage): void {
+    hooks.usage?.({ provider, model, usage, cost: calculateCost(model, usage) });
+  }
+
+  private parseGeneratedContent(response: CompletionResponse, stack: string): GenerationResult {
+    const parsed = parseGenerationOutput(response.content);
 
     return {
-      files,
-      documentation: this.generateDocumentation(content, stack),
-      installationScript: this.generateInstallationScript(stack)
+      files: parsed.files,
+      documentation: parsed.documentation || this.generateDocumentation(parsed.files, stack),
+      installationScript: parsed.installationScript || this.generateInstallationScript(stack),
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      cost: calculateCost(response.model, response.usage)
     };
   }
 
-  private getLanguageFromStack(stack: string): string {
-    const stackMap: { [key: string]: string } = {
-      'react': 'javascript',
-      'vue': 'javascript',
-      'angular': 'typescript',
-      'node': 'javascript',
-      'python': 'python',
-      'html-css-js': 'html',
-      'react-native': 'javascript',
-      'electron': 'javascript',
-      'node-react-fullstack': 'javascript'
-    };
-
-    return stackMap[stack] || 'javascript';
-  }
+  private parseRefinedContent(response: CompletionResponse): GenerationResult {
+    const parsed = parseGenerationOutput(response.content, { allowEmpty: true });
 
-  private getDefaultFilename(stack: string): string {
-    const filenameMap: { [key: string]: string } = {
-      'react': 'App.jsx',
-      'vue': 'App.vue',
-      'angular': 'app.component.ts',
-      'node': 'server.js',
-      'python': 'app.py',
-      'html-css-js': 'index.html',
-      'react-native': 'App.js',
-      'electron': 'main.js',
-      'node-react-fullstack': 'package.json'
+    return {
+      files: parsed.files,
+      documentation: parsed.documentation,
+      installationScript: parsed.installationScript,
+      deletedFiles: parsed.deletedFiles,
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      cost: calculateCost(response.model, response.usage)
     };
-
-    return filenameMap[stack] || 'app.js';
   }
 
-  private generateDocumentation(content: string, stack: string): string {
+  private generateDocumentation(files: GeneratedFile[], stack: string): string {
     return `# Generated by EchoF AI - Powered by Mlungisi
 
 ## Project Overview
@@ -175,9 +252,7 @@ This project was generated using EchoF's AI-powered code generation platform.
 - Production-ready setup
 
 ## Generated Files
-- Main application file
-- Configuration files
-- Dependencies and scripts
+${files.map(file => `- \`${file.filename}\``).join('\n')}
 
 For more information, visit [EchoF Platform](https://echo-f.com)`;
   }
@@ -0,0 +1,403 @@
+import Docker from 'dockerode';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Preview, { IPreview } from '../models/Preview';
+import { GeneratedFile } from '../utils/generationOutput';
+import { Workspace } from '../utils/workspace';
+
+export class PreviewError extends Error {
+  isOperational = true;
+
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+export interface PreviewOptions {
+  generationId: mongoose.Types.ObjectId;
+  // Owner of the generation; the preview URL is only valid for them
+  userId: mongoose.Types.ObjectId;
+  stack: string;
+  files: GeneratedFile[];
+  onBuild?: (message: string) => void;
+}
+
+export interface PreviewResult {
+  previewUrl?: string;
+  expiresAt?: Date;
+}
+
+interface ServerRuntime {
+  image: string;
+  // Project directory the server runs in
+  directory: string;
+  port: number;
+  // Shell command that installs and starts the server, or null when the
+  // project has no recognizable entry point. Files are relative to directory.
+  command: (files: string[]) => string | null;
+}
+
+const AREA = 'previews';
+const TTL_MINUTES = parseFloat(process.env.PREVIEW_TTL_MINUTES || '60');
+const MAX_CONTAINERS = parseInt(process.env.PREVIEW_MAX_CONTAINERS || '10');
+const BUILD_TIMEOUT_MS = parseInt(process.env.PREVIEW_BUILD_TIMEOUT_MS || '300000');
+const MEMORY_MB = parseInt(process.env.PREVIEW_MEMORY_MB || '512');
+const CPUS = parseFloat(process.env.PREVIEW_CPUS || '1');
+// Builds and servers install their dependencies, so unlike test runs the
+// containers need a network that reaches the package registry
+const NETWORK = process.env.PREVIEW_NETWORK || 'bridge';
+const NODE_IMAGE = process.env.PREVIEW_NODE_IMAGE || 'node:18-alpine';
+const PYTHON_IMAGE = process.env.PREVIEW_PYTHON_IMAGE || 'python:3.11-slim';
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const BUILD_OUTPUT_LINES = 20;
+
+// Served as generated
+const STATIC_STACKS = ['html-css-js'];
+// Built in a container, then served as static files
+const BUILT_STACKS = ['react', 'vue', 'angular'];
+
+const NPM_INSTALL = 'npm install --no-audit --no-fund --ignore-scripts';
+const PIP_INSTALL = 'if [ -f requirements.txt ]; then pip install -q --user -r requirements.txt; fi';
+const PYTHON_ENTRY_POINTS = ['app.py', 'main.py', 'server.py', 'run.py'];
+
+const nodeCommand = (files: string[]): string | null => {
+  return files.includes('package.json') ? `${NPM_INSTALL} && exec npm start` : null;
+};
+
+const SERVER_RUNTIMES: Record<string, ServerRuntime> = {
+  node: { image: NODE_IMAGE, directory: '.', port: 3000, command: nodeCommand },
+  // The backend is previewed; it is expected to serve the frontend itself
+  'node-react-fullstack': { image: NODE_IMAGE, directory: 'backend', port: 3000, command: nodeCommand },
+  python: {
+    image: PYTHON_IMAGE,
+    directory: '.',
+    port: 8000,
+    command: files => {
+      if (files.includes('manage.py')) return `${PIP_INSTALL} && exec python manage.py runserver 0.0.0.0:$PORT`;
+      const entry = PYTHON_ENTRY_POINTS.find(file => files.includes(file));
+      return entry ? `${PIP_INSTALL} && exec python ${entry}` : null;
+    }
+  }
+};
+
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+// Preview tokens get their own key: the code behind a preview is untrusted,
+// and a leaked preview URL must never help forge a login token
+const signingSecret = (): string => {
+  if (!process.env.PREVIEW_SIGNING_SECRET) {
+    throw new PreviewError('Previews are disabled: PREVIEW_SIGNING_SECRET is not set', 503);
+  }
+  return process.env.PREVIEW_SIGNING_SECRET;
+};
+
+const baseUrl = (): string => {
+  return (process.env.PREVIEW_BASE_URL || process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/+$/, '');
+};
+
+// Built assets are requested from absolute paths, so the bundler is told
+// where the preview lives: Vite through --base, Angular through --base-href
+// and Create React App through PUBLIC_URL.
+const buildCommand = (buildScript: string, basePath: string): string => {
+  let args = '';
+  if (/\bvite\b/.test(buildScript)) args = ` -- --base=${basePath}`;
+  else if (/\bng\s+build\b/.test(buildScript)) args = ` -- --base-href=${basePath}`;
+  return `${NPM_INSTALL} && npm run build${args}`;
+};
+
+// dist/ (Vite, Vue CLI), build/ (Create React App) or dist/<project>[/browser]
+// (Angular)
+const findBuildOutput = async (projectDir: string): Promise<string | null> => {
+  const candidates = ['dist', 'build'];
+  const distDir = path.join(projectDir, 'dist');
+  if (await fs.pathExists(distDir)) {
+    for (const entry of await fs.readdir(distDir)) {
+      candidates.push(`dist/${entry}`, `dist/${entry}/browser`);
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (await fs.pathExists(path.join(projectDir, candidate, 'index.html'))) return candidate;
+  }
+  return null;
+};
+
+// Containers run as the API's own user so it can delete what they write
+const containerUser = (): string | undefined => {
+  return process.getuid && process.getgid ? `${process.getuid()}:${process.getgid()}` : undefined;
+};
+
+// Short-lived previews of generated projects. Static and built front-end
+// stacks are served from disk by the API; server stacks run in a container
+// that the API reverse-proxies to. Every preview expires and is torn down by
+// a periodic sweep.
+class PreviewService {
+  private docker: Docker;
+  private sweeper?: NodeJS.Timeout;
+
+  constructor() {
+    this.docker = new Docker();
+  }
+
+  isSupported(stack: string): boolean {
+    return STATIC_STACKS.includes(stack) || BUILT_STACKS.includes(stack) || stack in SERVER_RUNTIMES;
+  }
+
+  // Returns no URL for stacks that cannot be previewed (mobile and desktop)
+  async create(options: PreviewOptions): Promise<PreviewResult> {
+    const { generationId, userId, stack, files, onBuild } = options;
+    if (!this.isSupported(stack)) return {};
+
+    const previewId = crypto.randomBytes(12).toString('hex');
+    const expiresAt = new Date(Date.now() + TTL_MINUTES * 60 * 1000);
+    // The token in the path is the access check: it names the preview and
+    // its owner, and relative asset URLs carry it along automatically
+    const token = jwt.sign({ preview: previewId, user: userId.toString() }, signingSecret(), {
+      expiresIn: Math.ceil(TTL_MINUTES * 60)
+    });
+    const basePath = `/preview/${token}/`;
+
+    const workspace = await Workspace.create(AREA, files, previewId);
+    let containerId: string | undefined;
+
+    try {
+      const runtime = SERVER_RUNTIMES[stack];
+      const fields = runtime
+        ? await this.startServer(workspace, runtime, files, basePath)
+        : await this.prepareStatic(workspace, stack, basePath, onBuild);
+      containerId = fields.containerId;
+
+      await Preview.create({ previewId, generation: generationId, user: userId, stack, expiresAt, ...fields });
+    } catch (error) {
+      if (containerId) {
+        await this.docker.getContainer(containerId).remove({ force: true }).catch(() => undefined);
+      }
+      await workspace.remove().catch(() => undefined);
+      throw error;
+    }
+
+    return { previewUrl: `${baseUrl()}${basePath}`, expiresAt };
+  }
+
+  // Checks a preview token and returns the live preview it grants access to
+  async authorize(token: string): Promise<IPreview> {
+    if (!process.env.PREVIEW_SIGNING_SECRET) {
+      throw new PreviewError('Preview not found', 404);
+    }
+
+    let payload: any;
+    try {
+      payload = jwt.verify(token, process.env.PREVIEW_SIGNING_SECRET);
+    } catch (error: any) {
+      throw error.name === 'TokenExpiredError'
+        ? new PreviewError('Preview has expired', 410)
+        : new PreviewError('Preview not found', 404);
+    }
+
+    const preview = await Preview.findOne({ previewId: payload.preview });
+    if (!preview || preview.user.toString() !== payload.user) {
+      throw new PreviewError('Preview not found', 404);
+    }
+
+    if (preview.expiresAt <= new Date()) {
+      await this.teardown(preview);
+      throw new PreviewError('Preview has expired', 410);
+    }
+
+    return preview;
+  }
+
+  // Maps a request path to a file of a static preview. Dotfiles are never
+  // served, and paths without an extension fall back to index.html so that
+  // client-side routes of single-page apps load.
+  async resolveFile(preview: IPreview, requestPath: string): Promise<string | null> {
+    let relative: string;
+    try {
+      relative = path.posix.normalize(`/${decodeURIComponent(requestPath)}`);
+    } catch {
+      return null;
+    }
+    if (relative.split('/').some(segment => segment.startsWith('.') && segment !== '.')) return null;
+
+    const root = await fs.realpath(path.join(Workspace.open(AREA, preview.previewId).root, preview.root || '.')).catch(() => null);
+    if (!root) return null;
+
+    const target = path.join(root, relative);
+    return await this.existingFile(root, target)
+      || await this.existingFile(root, path.join(target, 'index.html'))
+      || (path.extname(target) ? null : await this.existingFile(root, path.join(root, 'index.html')));
+  }
+
+  async teardown(preview: IPreview): Promise<void> {
+    if (preview.containerId) {
+      await this.docker.getContainer(preview.containerId).remove({ force: true }).catch(() => undefined);
+    }
+    await Workspace.open(AREA, preview.previewId).remove().catch(() => undefined);
+    await Preview.deleteOne({ _id: preview._id });
+  }
+
+  async sweep(): Promise<number> {
+    const expired = await Preview.find({ expiresAt: { $lte: new Date() } });
+    for (const preview of expired) {
+      await this.teardown(preview);
+    }
+    return expired.length;
+  }
+
+  // Also tears down previews that expired while the server was down
+  startSweeper(): void {
+    if (this.sweeper) return;
+
+    const run = () => this.sweep().catch(error => {
+      console.error('Preview sweep failed: - previewService.ts:242', error);
+    });
+    run();
+    this.sweeper = setInterval(run, SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
+  }
+
+  // Symlinks are resolved so that a link in the build output cannot expose
+  // files outside the preview
+  private async existingFile(root: string, target: string): Promise<string | null> {
+    const real = await fs.realpath(target).catch(() => null);
+    if (!real || !real.startsWith(`${root}${path.sep}`)) return null;
+
+    const stat = await fs.stat(real);
+    return stat.isFile() ? real : null;
+  }
+
+  private async prepareStatic(workspace: Workspace, stack: string, basePath: string, onBuild?: PreviewOptions['onBuild']): Promise<Partial<IPreview>> {
+    if (STATIC_STACKS.includes(stack)) {
+      return { kind: 'static', root: '.' };
+    }
+
+    const packageJson = await fs.readJson(path.join(workspace.root, 'package.json')).catch(() => null);
+    const buildScript = packageJson?.scripts?.build;
+
+    if (typeof buildScript !== 'string') {
+      // Pages that load their framework from a CDN have nothing to build
+      if (await fs.pathExists(path.join(workspace.root, 'index.html'))) {
+        return { kind: 'static', root: '.' };
+      }
+      throw new PreviewError('Preview needs a build script in package.json or an index.html at the project root');
+    }
+
+    onBuild?.('Building preview');
+    await this.build(workspace.root, buildCommand(buildScript, basePath), basePath);
+
+    const root = await findBuildOutput(workspace.root);
+    if (!root) {
+      throw new PreviewError('Preview build produced no index.html in dist/ or build/');
+    }
+    return { kind: 'static', root };
+  }
+
+  private async build(projectDir: string, command: string, basePath: string): Promise<void> {
+    const container = await this.docker.createContainer({
+      Image: NODE_IMAGE,
+      Cmd: ['sh', '-c', command],
+      WorkingDir: '/app',
+      User: containerUser(),
+      Env: ['CI=true', 'HOME=/tmp', `PUBLIC_URL=${basePath.replace(/\/$/, '')}`],
+      Tty: true,
+      HostConfig: {
+        Binds: [`${projectDir}:/app`],
+        NetworkMode: NETWORK,
+        Memory: MEMORY_MB * 1024 * 1024,
+        NanoCpus: Math.round(CPUS * 1e9),
+        PidsLimit: 256,
+        CapDrop: ['ALL'],
+        SecurityOpt: ['no-new-privileges']
+      }
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await container.start();
+
+      const timeout = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), BUILD_TIMEOUT_MS);
+      });
+      const outcome = await Promise.race([container.wait(), timeout]);
+
+      if (!outcome) {
+        throw new PreviewError(`Preview build timed out after ${Math.round(BUILD_TIMEOUT_MS / 1000)}s`);
+      }
+
+      if (outcome.StatusCode !== 0) {
+        const logs = await container.logs({ stdout: true, stderr: true, follow: false });
+        const tail = logs.toString().replace(ANSI_ESCAPE, '').trimEnd().split('\n').slice(-BUILD_OUTPUT_LINES).join('\n');
+        throw new PreviewError(`Preview build failed (exit code ${outcome.StatusCode}):\n${tail}`);
+      }
+    } finally {
+      clearTimeout(timer);
+      await container.remove({ force: true }).catch(() => undefined);
+    }
+  }
+
+  // Starts the server and returns without waiting for it to listen; until it
+  // does, the proxy answers with 502.
+  private async startServer(workspace: Workspace, runtime: ServerRuntime, files: GeneratedFile[], basePath: string): Promise<Partial<IPreview>> {
+    const prefix = runtime.directory === '.' ? '' : `${runtime.directory}/`;
+    const command = runtime.command(files
+      .filter(file => file.filename.startsWith(prefix))
+      .map(file => file.filename.slice(prefix.length)));
+
+    if (!command) {
+      throw new PreviewError('Preview could not find the server entry point');
+    }
+
+    await this.makeRoomForContainer();
+
+    const exposedPort = `${runtime.port}/tcp`;
+    const container = await this.docker.createContainer({
+      Image: runtime.image,
+      Cmd: ['sh', '-c', command],
+      WorkingDir: path.posix.join('/app', runtime.directory),
+      User: containerUser(),
+      Env: [`PORT=${runtime.port}`, 'HOST=0.0.0.0', `BASE_PATH=${basePath}`, 'HOME=/tmp'],
+      ExposedPorts: { [exposedPort]: {} },
+      HostConfig: {
+        Binds: [`${workspace.root}:/app`],
+        NetworkMode: NETWORK,
+        // Reachable from the API only; an empty HostPort picks a free port
+        PortBindings: { [exposedPort]: [{ HostIp: '127.0.0.1', HostPort: '' }] },
+        Memory: MEMORY_MB * 1024 * 1024,
+        NanoCpus: Math.round(CPUS * 1e9),
+        PidsLimit: 256,
+        CapDrop: ['ALL'],
+        SecurityOpt: ['no-new-privileges']
+      }
+    });
+
+    try {
+      await container.start();
+      const info = await container.inspect();
+      const hostPort = parseInt(info.NetworkSettings.Ports[exposedPort]?.[0]?.HostPort || '');
+      if (!hostPort) {
+        throw new PreviewError('Preview server port could not be published', 500);
+      }
+      return { kind: 'server', containerId: container.id, hostPort };
+    } catch (error) {
+      await container.remove({ force: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Running servers are capped; the previews closest to expiry make way
+  private async makeRoomForContainer(): Promise<void> {
+    const running = await Preview.find({ kind: 'server' }).sort({ expiresAt: 1 });
+    const excess = running.length - MAX_CONTAINERS + 1;
+
+    for (const preview of running.slice(0, Math.max(0, excess))) {
+      await this.teardown(preview);
+    }
+  }
+}
+
+export default new PreviewService();
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import PromptTemplate, { IPromptTemplate } from '../models/PromptTemplate';
+import { OUTPUT_FORMAT_INSTRUCTIONS } from '../utils/generationOutput';
+
+export interface PromptVariables {
+  stack: string;
+  output: string;
+  projectContext?: string;
+  userPreferences?: string;
+}
+
+export interface TemplateVersionInput {
+  stack: string;
+  output: string;
+  body: string;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId | string;
+}
+
+export interface RenderedPrompt {
+  systemPrompt: string;
+  templateId?: mongoose.Types.ObjectId;
+  version: number;
+}
+
+// Version 0 is the built-in template used until an admin activates one
+export const DEFAULT_TEMPLATE = `You are an expert software developer. Generate clean, production-ready code that follows best practices and security standards.
+
+IMPORTANT: Return ONLY valid, runnable code. Do not include any explanatory text or comments about the code outside of the files themselves.
+
+{{outputFormat}}
+
+For {{stack}} projects, ensure:
+- Modern coding standards and best practices
+- Proper error handling
+- Security considerations
+- Clean, readable code structure
+- Appropriate dependencies and imports
+
+Project layout:
+{{projectLayout}}{{#outputGuidance}}
+
+{{outputGuidance}}{{/outputGuidance}}{{#projectContext}}
+
+Project context:
+{{projectContext}}{{/projectContext}}{{#userPreferences}}
+
+User preferences:
+{{userPreferences}}{{/userPreferences}}`;
+
+export const TEMPLATE_VARIABLES = ['stack', 'output', 'outputFormat', 'projectLayout', 'outputGuidance', 'projectContext', 'userPreferences'];
+
+const PROJECT_LAYOUTS: { [key: string]: string } = {
+  'react': '- package.json at the root with react, react-dom and build scripts\n- Source files under src/ with src/App.jsx as the root component',
+  'vue': '- package.json at the root with vue and build scripts\n- Source files under src/ with src/App.vue and src/main.js',
+  'angular': '- package.json and angular.json at the root\n- Application code under src/app/ with app.component.ts',
+  'node': '- package.json at the root with a start script\n- Entry point server.js at the root',
+  'python': '- requirements.txt at the root\n- Entry point app.py at the root',
+  'html-css-js': '- index.html at the root\n- Stylesheets and scripts referenced from index.html with relative paths',
+  'react-native': '- package.json at the root\n- Root component in App.js',
+  'electron': '- package.json at the root with "main" pointing to main.js\n- Renderer files referenced from main.js',
+  'node-react-fullstack': '- backend/ containing its own package.json and the Express API\n- frontend/ containing its own package.json and the React application\n- Every file path must start with backend/ or frontend/, except an optional root README.md'
+};
+
+const DUPLICATE_KEY = 11000;
+const CREATE_VERSION_ATTEMPTS = 3;
+
+const OUTPUT_GUIDANCE: { [key: string]: string } = {
+  'preview': 'Generate a simple, functional example that demonstrates the core features. Keep it minimal but complete. The preview is served below a path prefix, so reference assets and pages with relative paths; servers must listen on the port in the PORT environment variable on all interfaces (0.0.0.0).',
+  'deploy': 'The project is built into production containers. Front-end projects must build with npm run build; servers must start with npm start (python: python app.py) and listen on the port in the PORT environment variable on all interfaces (0.0.0.0). In full-stack projects the frontend reaches the backend under the relative path /api/.'
+};
+
+class PromptTemplateService {
+  // Picks the active template for the most specific stack/output match,
+  // falling back to wildcards and finally the built-in template.
+  async resolve(stack: string, output: string): Promise<IPromptTemplate | null> {
+    const candidates = await PromptTemplate.find({
+      isActive: true,
+      stack: { $in: [stack, '*'] },
+      output: { $in: [output, '*'] }
+    });
+
+    const specificity = (template: IPromptTemplate) =>
+      (template.stack === stack ? 2 : 0) + (template.output === output ? 1 : 0);
+
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0] || null;
+  }
+
+  async render(variables: PromptVariables): Promise<RenderedPrompt> {
+    const template = await this.resolve(variables.stack, variables.output);
+
+    return {
+      systemPrompt: this.renderBody(template ? template.body : DEFAULT_TEMPLATE, variables),
+      templateId: template?._id,
+      version: template ? template.version : 0
+    };
+  }
+
+  // Substitutes {{name}} placeholders. {{#name}}...{{/name}} sections are
+  // only kept when the variable has a value.
+  renderBody(body: string, variables: PromptVariables): string {
+    const values: { [key: string]: string } = {
+      stack: variables.stack,
+      output: variables.output,
+      outputFormat: OUTPUT_FORMAT_INSTRUCTIONS,
+      projectLayout: PROJECT_LAYOUTS[variables.stack] || '- package.json at the root',
+      outputGuidance: OUTPUT_GUIDANCE[variables.output] || '',
+      projectContext: variables.projectContext || '',
+      userPreferences: variables.userPreferences || ''
+    };
+
+    return body
+      .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name, section) => (values[name] ? section : ''))
+      .replace(/\{\{(\w+)\}\}/g, (_, name) => values[name] ?? '')
+      .trim();
+  }
+
+  async nextVersion(stack: string, output: string): Promise<number> {
+    const latest = await PromptTemplate.findOne({ stack, output }).sort({ version: -1 });
+    return latest ? latest.version + 1 : 1;
+  }
+
+  // Concurrent creates can pick the same version number; the unique
+  // {stack, output, version} index rejects all but one, and the others take
+  // the next free number. A duplicate key error is only thrown once the
+  // attempts are used up.
+  async createVersion(input: TemplateVersionInput): Promise<IPromptTemplate> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await PromptTemplate.create({
+          ...input,
+          version: await this.nextVersion(input.stack, input.output)
+        });
+      } catch (error: any) {
+        if (error.code !== DUPLICATE_KEY || attempt >= CREATE_VERSION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async activate(template: IPromptTemplate): Promise<IPromptTemplate> {
+    await PromptTemplate.updateMany(
+      { stack: template.stack, output: template.output, _id: { $ne: template._id } },
+      { isActive: false }
+    );
+
+    template.isActive = true;
+    template.activatedAt = template.activatedAt || new Date();
+    return await template.save();
+  }
+}
+
+export default new PromptTemplateService();
@@ -0,0 +1,88 @@
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './types';
+import { TokenUsage, estimateTokens } from '../../config/pricing';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private client: GoogleGenerativeAI | null = null;
+
+  constructor() {
+    this.model = process.env.GEMINI_MODEL || 'gemini-pro';
+
+    if (process.env.GEMINI_API_KEY) {
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (!this.client) throw new Error('Gemini not configured');
+
+    const model = this.client.getGenerativeModel({ model: this.model });
+
+    if (request.onToken) {
+      const streamed = await model.generateContentStream([
+        request.systemPrompt,
+        request.prompt
+      ]);
+
+      let content = '';
+      for await (const chunk of streamed.stream) {
+        const text = chunk.text();
+        if (text) {
+          content += text;
+          request.onToken(text);
+        }
+      }
+
+      if (!content) throw new Error('No content generated');
+
+      return {
+        content,
+        provider: this.name,
+        model: this.model,
+        usage: await this.countUsage(model, request, content)
+      };
+    }
+
+    const result = await model.generateContent([
+      request.systemPrompt,
+      request.prompt
+    ]);
+
+    const content = result.response.text();
+    if (!content) throw new Error('No content generated');
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      usage: await this.countUsage(model, request, content)
+    };
+  }
+
+  // The Gemini SDK does not report usage on responses, so count both sides
+  // explicitly and fall back to an estimate if counting fails.
+  private async countUsage(model: GenerativeModel, request: CompletionRequest, content: string): Promise<TokenUsage> {
+    let promptTokens: number;
+    let completionTokens: number;
+
+    try {
+      const [prompt, completion] = await Promise.all([
+        model.countTokens([request.systemPrompt, request.prompt]),
+        model.countTokens(content)
+      ]);
+      promptTokens = prompt.totalTokens;
+      completionTokens = completion.totalTokens;
+    } catch (error) {
+      promptTokens = estimateTokens(request.systemPrompt + request.prompt);
+      completionTokens = estimateTokens(content);
+    }
+
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
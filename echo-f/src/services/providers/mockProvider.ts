@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './types';
+import { estimateTokens } from '../../config/pricing';
+
+type MockFile = { path: string; content: string };
+
+const packageJson = (name: string, extra: object = {}): string => JSON.stringify({
+  name,
+  version: '1.0.0',
+  private: true,
+  ...extra
+}, null, 2);
+
+// Deterministic, network-free provider for tests and offline development.
+// The same prompt and stack always produce the same manifest.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-1';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    const digest = crypto.createHash('sha256').update(`${request.stack}:${request.prompt}`).digest('hex').slice(0, 8);
+    const name = `echo-f-mock-${digest}`;
+    const title = request.prompt.split('\n')[0].slice(0, 80);
+
+    const manifest = {
+      files: this.getFiles(request.stack, name, title),
+      documentation: `# ${name}\n\nMock project generated for: ${title}\n`
+    };
+
+    const content = JSON.stringify(manifest, null, 2);
+
+    if (request.onToken) {
+      for (let i = 0; i < content.length; i += 64) {
+        request.onToken(content.slice(i, i + 64));
+      }
+    }
+
+    const promptTokens = estimateTokens(request.systemPrompt + request.prompt);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      provider: this.name,
+      model: this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  private getFiles(stack: string, name: string, title: string): MockFile[] {
+    const comment = `// ${title.replace(/\*\//g, '')}`;
+
+    switch (stack) {
+      case 'python':
+        return [
+          { path: 'requirements.txt', content: 'flask==3.0.0\n' },
+          { path: 'app.py', content: `# ${title}\nfrom flask import Flask\n\napp = Flask(__name__)\n\n\n@app.route('/')\ndef index():\n    return 'Hello from ${name}'\n\n\nif __name__ == '__main__':\n    app.run(host='0.0.0.0', port=8000)\n` }
+        ];
+      case 'html-css-js':
+        return [
+          { path: 'index.html', content: `<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta charset="UTF-8">\n  <title>${name}</title>\n  <link rel="stylesheet" href="styles.css">\n</head>\n<body>\n  <h1>${name}</h1>\n  <script src="script.js"></script>\n</body>\n</html>\n` },
+          { path: 'styles.css', content: 'body {\n  font-family: sans-serif;\n}\n' },
+          { path: 'script.js', content: `${comment}\ndocument.querySelector('h1').textContent += ' ready';\n` }
+        ];
+      case 'node-react-fullstack':
+        return [
+          { path: 'backend/package.json', content: packageJson(`${name}-backend`, { main: 'server.js', scripts: { start: 'node server.js' }, dependencies: { express: '^4.18.2' } }) },
+          { path: 'backend/server.js', content: `${comment}\nconst express = require('express');\n\nconst app = express();\n\napp.get('/api/health', (req, res) => {\n  res.json({ status: 'OK' });\n});\n\napp.listen(process.env.PORT || 3001);\n` },
+          { path: 'frontend/package.json', content: packageJson(`${name}-frontend`, { scripts: { build: 'vite build' }, dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0' }, devDependencies: { vite: '^5.0.0' } }) },
+          { path: 'frontend/src/main.js', content: `${comment}\nimport React from 'react';\nimport { createRoot } from 'react-dom/client';\n\ncreateRoot(document.getElementById('root')).render(React.createElement('h1', null, '${name}'));\n` }
+        ];
+      default:
+        return [
+          { path: 'package.json', content: packageJson(name, { main: 'server.js', scripts: { start: 'node server.js' } }) },
+          { path: 'server.js', content: `${comment}\nconst http = require('http');\n\nhttp.createServer((req, res) => {\n  res.end('Hello from ${name}');\n}).listen(process.env.PORT || 3000);\n` }
+        ];
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import OpenAI from 'openai';
+import { CompletionRequest, CompletionResponse, LLMProvider } from './types';
+import { TokenUsage, estimateTokens } from '../../config/pricing';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor() {
+    this.model = process.env.OPENAI_MODEL || 'gpt-4';
+
+    if (process.env.OPENAI_API_KEY) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    if (!this.client) throw new Error('OpenAI not configured');
+
+    if (request.onToken) {
+      return this.stream(request, request.onToken);
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: 4000,
+      temperature: 0.3
+    }, { signal: request.signal });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error('No content generated');
+
+    return {
+      content,
+      provider: this.name,
+      model: completion.model || this.model,
+      usage: completion.usage
+        ? {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens
+        }
+        : this.estimateUsage(request, content)
+    };
+  }
+
+  private async stream(request: CompletionRequest, onToken: (chunk: string) => void): Promise<CompletionResponse> {
+    const stream = await this.client!.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: 4000,
+      temperature: 0.3,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    let content = '';
+    let model = this.model;
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      model = chunk.model || model;
+
+      // With include_usage the final chunk carries usage and no choices
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens
+        };
+      }
+    }
+
+    if (!content) throw new Error('No content generated');
+
+    return {
+      content,
+      provider: this.name,
+      model,
+      usage: usage || this.estimateUsage(request, content)
+    };
+  }
+
+  private estimateUsage(request: CompletionRequest, content: string): TokenUsage {
+    const promptTokens = estimateTokens(request.systemPrompt + request.prompt);
+    const completionTokens = estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
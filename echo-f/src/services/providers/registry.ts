@@ -0,0 +1,48 @@
+import { LLMProvider } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+
+const DEFAULT_CHAIN = 'openai,gemini';
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Ordered fallback chain from LLM_PROVIDER_CHAIN (e.g. "openai,gemini,mock"),
+  // limited to providers that are registered and have credentials.
+  getChain(): LLMProvider[] {
+    const names = (process.env.LLM_PROVIDER_CHAIN || DEFAULT_CHAIN)
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    return names
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is LLMProvider => !!provider && provider.isConfigured());
+  }
+
+  // Per-provider timeout, e.g. LLM_OPENAI_TIMEOUT_MS, falling back to LLM_TIMEOUT_MS
+  getTimeout(name: string): number {
+    const specific = process.env[`LLM_${name.toUpperCase()}_TIMEOUT_MS`];
+    return parseInt(specific || process.env.LLM_TIMEOUT_MS || '120000');
+  }
+}
+
+const registry = new ProviderRegistry();
+registry.register(new OpenAIProvider());
+registry.register(new GeminiProvider());
+registry.register(new MockProvider());
+
+export default registry;
@@ -0,0 +1,24 @@
+import { TokenUsage } from '../../config/pricing';
+
+export interface CompletionRequest {
+  systemPrompt: string;
+  prompt: string;
+  stack: string;
+  signal?: AbortSignal;
+  // When set, providers stream the response and call this for every chunk
+  onToken?: (chunk: string) => void;
+}
+
+export interface CompletionResponse {
+  content: string;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
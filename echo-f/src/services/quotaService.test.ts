@@ -0,0 +1,113 @@
+import UsageCounter from '../models/UsageCounter';
+import quotaService from './quotaService';
+
+jest.mock('../models/UsageCounter', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), updateOne: jest.fn() }
+}));
+
+const counters = UsageCounter as jest.Mocked<any>;
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+
+describe('quotaService', () => {
+  const user = { _id: 'user-1', subscription: 'free' };
+  const today = new Date(Date.UTC(2024, 4, 10));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-05-10T15:30:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('reserve', () => {
+    it('counts a generation against today while under the limit', async () => {
+      counters.updateOne.mockResolvedValue({});
+
+      expect(await quotaService.reserve(user)).toBe(true);
+
+      expect(counters.updateOne).toHaveBeenCalledWith(
+        { user: 'user-1', day: today, generations: { $lt: 10 } },
+        { $inc: { generations: 1 } },
+        { upsert: true }
+      );
+    });
+
+    it('does not limit unlimited tiers', async () => {
+      counters.updateOne.mockResolvedValue({});
+
+      await quotaService.reserve({ _id: 'user-1', subscription: 'enterprise' });
+
+      expect(counters.updateOne.mock.calls[0][0]).toEqual({ user: 'user-1', day: today });
+    });
+
+    it('retries once when a concurrent first reservation created the counter', async () => {
+      counters.updateOne.mockRejectedValueOnce(duplicateKey()).mockResolvedValueOnce({});
+
+      expect(await quotaService.reserve(user)).toBe(true);
+      expect(counters.updateOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('refuses when the counter is at the limit', async () => {
+      counters.updateOne.mockRejectedValue(duplicateKey());
+
+      expect(await quotaService.reserve(user)).toBe(false);
+      expect(counters.updateOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes on other database errors', async () => {
+      counters.updateOne.mockRejectedValue(new Error('connection lost'));
+
+      await expect(quotaService.reserve(user)).rejects.toThrow('connection lost');
+      expect(counters.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('release', () => {
+    it('gives back one generation of the day it was reserved on', async () => {
+      counters.updateOne.mockResolvedValue({});
+
+      await quotaService.release('user-1', new Date('2024-05-09T23:59:00Z'));
+
+      expect(counters.updateOne).toHaveBeenCalledWith(
+        { user: 'user-1', day: new Date(Date.UTC(2024, 4, 9)), generations: { $gt: 0 } },
+        { $inc: { generations: -1 } }
+      );
+    });
+
+    it('defaults to today', async () => {
+      counters.updateOne.mockResolvedValue({});
+
+      await quotaService.release('user-1');
+
+      expect(counters.updateOne.mock.calls[0][0].day).toEqual(today);
+    });
+  });
+
+  describe('getUsage', () => {
+    it('reports what is left of today\'s quota', async () => {
+      counters.findOne.mockReturnValue({ lean: async () => ({ generations: 4 }) });
+
+      const usage = await quotaService.getUsage(user);
+
+      expect(usage).toEqual(expect.objectContaining({
+        subscription: 'free',
+        generationsToday: 4,
+        remaining: 6,
+        resetsAt: new Date(Date.UTC(2024, 4, 11))
+      }));
+    });
+
+    it('has no remaining count on unlimited tiers', async () => {
+      counters.findOne.mockReturnValue({ lean: async () => null });
+
+      const usage = await quotaService.getUsage({ _id: 'user-1', subscription: 'enterprise' });
+
+      expect(usage.generationsToday).toBe(0);
+      expect(usage.remaining).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import UsageCounter from '../models/UsageCounter';
+import { TierLimits, getTierLimits } from '../config/subscriptions';
+
+export interface QuotaUsage {
+  subscription: string;
+  limits: TierLimits;
+  generationsToday: number;
+  remaining: number | null;
+  resetsAt: Date;
+}
+
+interface QuotaUser {
+  _id: any;
+  subscription?: string;
+}
+
+const DUPLICATE_KEY = 11000;
+
+// Quotas reset at midnight UTC
+const startOfUtcDay = (date = new Date()): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+// Generations are counted when they are requested, in a per-user daily
+// counter, so concurrent requests can not overrun the limit. Every run that
+// reaches the LLM counts, whether it completes, fails or is cancelled.
+class QuotaService {
+  async getUsage(user: QuotaUser): Promise<QuotaUsage> {
+    const limits = getTierLimits(user.subscription);
+    const dayStart = startOfUtcDay();
+
+    const counter = await UsageCounter.findOne({ user: user._id, day: dayStart }).lean();
+    const generationsToday = counter?.generations || 0;
+
+    return {
+      subscription: user.subscription || 'free',
+      limits,
+      generationsToday,
+      remaining: limits.generationsPerDay === null ? null : Math.max(limits.generationsPerDay - generationsToday, 0),
+      resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000)
+    };
+  }
+
+  // Counts one generation against today's quota. Returns false, without
+  // counting it, when the daily limit is already reached.
+  async reserve(user: QuotaUser): Promise<boolean> {
+    const limit = getTierLimits(user.subscription).generationsPerDay;
+    const filter = {
+      user: user._id,
+      day: startOfUtcDay(),
+      ...(limit === null ? {} : { generations: { $lt: limit } })
+    };
+
+    // The first attempt fails on the unique index either because the counter
+    // is at the limit or because a concurrent first reservation of the day
+    // created it; the second attempt tells the two apart
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await UsageCounter.updateOne(filter, { $inc: { generations: 1 } }, { upsert: true });
+        return true;
+      } catch (error: any) {
+        if (error.code !== DUPLICATE_KEY) throw error;
+      }
+    }
+    return false;
+  }
+
+  // Gives back a reservation for a request that never started a run, or a
+  // run cancelled before it used any tokens. reservedAt picks the day the
+  // generation was counted against.
+  async release(userId: mongoose.Types.ObjectId | string, reservedAt: Date = new Date()): Promise<void> {
+    await UsageCounter.updateOne(
+      { user: userId, day: startOfUtcDay(reservedAt), generations: { $gt: 0 } },
+      { $inc: { generations: -1 } }
+    );
+  }
+}
+
+export default new QuotaService();
@@ -0,0 +1,338 @@
+import ts from 'typescript';
+import { SecurityRule } from './securityScanner';
+
+const SQL_KEYWORDS = /\b(select|insert|update|delete|drop|alter)\b/i;
+const SQL_METHODS = new Set(['query', 'execute', 'raw', 'exec', '$queryRawUnsafe', '$executeRawUnsafe']);
+const SHELL_EXEC_FUNCTIONS = new Set(['exec', 'execSync']);
+const SPAWN_FUNCTIONS = new Set(['spawn', 'spawnSync', 'execFile', 'execFileSync']);
+// Matches names such as password, dbPassword, JWT_SECRET, apiKey and secretKey
+const SECRET_NAME = /(password|passwd|secret|api_?key|access_?token|auth_?token|private_?key)(_?key)?$/i;
+// Values an LLM writes when it means "fill this in"
+const PLACEHOLDER_VALUE = /(your|example|placeholder|changeme|xxx|\[redacted)/i;
+const CORS_HEADER_METHODS = new Set(['setHeader', 'header', 'set']);
+
+// Name of the called function: foo() -> foo, a.b.foo() -> foo
+const calleeName = (call: ts.CallExpression | ts.NewExpression): string | undefined => {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return undefined;
+};
+
+const propertyName = (name: ts.PropertyName | ts.BindingName): string | undefined => {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) return name.text;
+  return undefined;
+};
+
+const isStaticString = (node: ts.Node): boolean => {
+  return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node);
+};
+
+// A string built at runtime from a template or + concatenation
+const isDynamicString = (node: ts.Node): boolean => {
+  if (ts.isTemplateExpression(node)) return true;
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return !(isStaticString(node.left) && isStaticString(node.right));
+  }
+  return false;
+};
+
+const findProperty = (object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined => {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && propertyName(property.name) === name) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+};
+
+const isOpenOrigin = (node: ts.Expression | undefined): boolean => {
+  if (!node) return false;
+  return node.kind === ts.SyntaxKind.TrueKeyword || (ts.isStringLiteral(node) && node.text === '*');
+};
+
+export const DEFAULT_SECURITY_RULES: SecurityRule[] = [
+  {
+    id: 'js/eval',
+    name: 'Dynamic code evaluation',
+    description: 'eval() or new Function() executes strings as code',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Parse data with JSON.parse or dispatch to known functions instead of evaluating strings.',
+    matcher: {
+      type: 'ast',
+      match: node => {
+        if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'eval') return true;
+        if (ts.isNewExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'Function') return true;
+        return false;
+      }
+    }
+  },
+  {
+    id: 'js/document-write',
+    name: 'document.write',
+    description: 'document.write() injects unescaped markup into the page',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Build elements with document.createElement and set textContent.',
+    matcher: {
+      type: 'ast',
+      match: node => ts.isCallExpression(node)
+        && ts.isPropertyAccessExpression(node.expression)
+        && ['write', 'writeln'].includes(node.expression.name.text)
+        && ts.isIdentifier(node.expression.expression)
+        && node.expression.expression.text === 'document'
+    }
+  },
+  {
+    id: 'js/inner-html',
+    name: 'Unescaped HTML assignment',
+    description: 'Assigning non-literal markup to innerHTML/outerHTML can lead to XSS',
+    severity: 'warning',
+    language: 'javascript',
+    fix: 'Use textContent, createElement, or sanitize the markup before inserting it.',
+    matcher: {
+      type: 'ast',
+      match: node => {
+        if (ts.isBinaryExpression(node)
+          && node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+          && ts.isPropertyAccessExpression(node.left)
+          && ['innerHTML', 'outerHTML'].includes(node.left.name.text)) {
+          return !isStaticString(node.right);
+        }
+        if (ts.isJsxAttribute(node) && ts.isIdentifier(node.name) && node.name.text === 'dangerouslySetInnerHTML') {
+          return 'dangerouslySetInnerHTML renders unescaped markup';
+        }
+        return false;
+      }
+    }
+  },
+  {
+    id: 'js/sql-string-concat',
+    name: 'SQL built from strings',
+    description: 'SQL query is built by string concatenation or interpolation',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Pass values as query parameters (placeholders) instead of splicing them into the SQL text.',
+    matcher: {
+      type: 'ast',
+      match: (node, { sourceFile }) => {
+        if (!ts.isCallExpression(node)) return false;
+        const name = calleeName(node);
+        const query = node.arguments[0];
+        return Boolean(name && SQL_METHODS.has(name) && query
+          && isDynamicString(query) && SQL_KEYWORDS.test(query.getText(sourceFile)));
+      }
+    }
+  },
+  {
+    id: 'js/command-injection',
+    name: 'Shell command built from input',
+    description: 'child_process runs a shell command that is built at runtime',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Use execFile or spawn with an argument array and without shell: true.',
+    matcher: {
+      type: 'ast',
+      match: (node, { importsChildProcess }) => {
+        if (!importsChildProcess || !ts.isCallExpression(node)) return false;
+        const name = calleeName(node);
+        const [command, ...rest] = node.arguments;
+        if (!name || !command) return false;
+
+        if (SHELL_EXEC_FUNCTIONS.has(name)) {
+          return !isStaticString(command);
+        }
+        if (SPAWN_FUNCTIONS.has(name)) {
+          const options = rest.find(ts.isObjectLiteralExpression);
+          const shell = options && findProperty(options, 'shell');
+          return Boolean(shell && shell.kind !== ts.SyntaxKind.FalseKeyword)
+            && 'child_process is called with shell enabled';
+        }
+        return false;
+      }
+    }
+  },
+  {
+    id: 'js/tls-verification-disabled',
+    name: 'TLS certificate verification disabled',
+    description: 'TLS certificate verification is disabled',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Keep certificate verification on; trust a private CA with the ca option instead.',
+    matcher: {
+      type: 'ast',
+      match: node => {
+        if (ts.isPropertyAssignment(node)
+          && ['rejectUnauthorized', 'strictSSL'].includes(propertyName(node.name) || '')) {
+          return node.initializer.kind === ts.SyntaxKind.FalseKeyword;
+        }
+        if (ts.isBinaryExpression(node)
+          && node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+          && ts.isPropertyAccessExpression(node.left)
+          && node.left.name.text === 'NODE_TLS_REJECT_UNAUTHORIZED') {
+          return ts.isStringLiteral(node.right) ? node.right.text === '0' : ts.isNumericLiteral(node.right) && node.right.text === '0';
+        }
+        return false;
+      }
+    }
+  },
+  {
+    id: 'js/open-cors',
+    name: 'CORS open to any origin',
+    description: 'CORS allows requests from any origin',
+    severity: 'warning',
+    language: 'javascript',
+    fix: 'List the allowed origins explicitly, e.g. cors({ origin: process.env.CLIENT_URL }).',
+    matcher: {
+      type: 'ast',
+      match: node => {
+        if (!ts.isCallExpression(node)) return false;
+        const name = calleeName(node);
+
+        if (name === 'cors') {
+          const [options] = node.arguments;
+          if (!options) return true;
+          return ts.isObjectLiteralExpression(options) && isOpenOrigin(findProperty(options, 'origin'));
+        }
+        if (name && CORS_HEADER_METHODS.has(name) && node.arguments.length >= 2) {
+          const [header, value] = node.arguments;
+          return ts.isStringLiteral(header)
+            && header.text.toLowerCase() === 'access-control-allow-origin'
+            && ts.isStringLiteral(value) && value.text === '*';
+        }
+        return false;
+      }
+    }
+  },
+  {
+    id: 'js/hardcoded-secret',
+    name: 'Hard-coded secret',
+    description: 'A credential is hard-coded in the source',
+    severity: 'error',
+    language: 'javascript',
+    fix: 'Read the value from an environment variable or a secret store.',
+    matcher: {
+      type: 'ast',
+      match: node => {
+        let name: string | undefined;
+        let value: ts.Expression | undefined;
+
+        if (ts.isVariableDeclaration(node)) {
+          name = propertyName(node.name);
+          value = node.initializer;
+        } else if (ts.isPropertyAssignment(node)) {
+          name = propertyName(node.name);
+          value = node.initializer;
+        }
+
+        if (!name || !value || !SECRET_NAME.test(name.replace(/-/g, '_')) || !isStaticString(value)) return false;
+
+        const text = (value as ts.StringLiteral).text;
+        return text.length > 0 && !PLACEHOLDER_VALUE.test(text);
+      }
+    }
+  },
+  {
+    id: 'secret/private-key',
+    name: 'Private key',
+    description: 'A private key is embedded in the project',
+    severity: 'error',
+    language: 'any',
+    fix: 'Load the key from a file outside the repository or from a secret store.',
+    matcher: { type: 'secret', kinds: ['private-key'] }
+  },
+  {
+    id: 'secret/token',
+    name: 'Access token',
+    description: 'A token in a known credential format (JWT, AWS, GitHub, Slack, Stripe, OpenAI or Google) is embedded in the project',
+    severity: 'error',
+    language: 'any',
+    fix: 'Revoke the token and read it from an environment variable instead.',
+    matcher: {
+      type: 'secret',
+      kinds: ['jwt', 'aws-access-key', 'github-token', 'slack-token', 'stripe-key', 'openai-key', 'google-api-key']
+    }
+  },
+  {
+    id: 'secret/high-entropy-string',
+    name: 'High-entropy string',
+    description: 'A random-looking string that may be a credential is embedded in the project',
+    severity: 'warning',
+    language: 'any',
+    fix: 'If this is a credential, read it from an environment variable instead.',
+    matcher: { type: 'secret', kinds: ['high-entropy-string'] }
+  },
+  {
+    id: 'py/eval',
+    name: 'Dynamic code evaluation',
+    description: 'eval() or exec() executes strings as code',
+    severity: 'error',
+    language: 'python',
+    fix: 'Use ast.literal_eval for data, or dispatch to known functions.',
+    matcher: { type: 'pattern', pattern: /(?<![\w.])(eval|exec)\s*\(/ }
+  },
+  {
+    id: 'py/sql-string-concat',
+    name: 'SQL built from strings',
+    description: 'SQL query passed to execute() is built with an f-string, % or +',
+    severity: 'error',
+    language: 'python',
+    fix: 'Pass values as the second argument to execute() and use placeholders in the SQL text.',
+    matcher: { type: 'pattern', pattern: /\.execute(many)?\s*\(\s*(f["']|["'][^"']*["']\s*(%|\+|\.format\s*\())/ }
+  },
+  {
+    id: 'py/command-injection',
+    name: 'Shell command execution',
+    description: 'Command runs through the shell (os.system or shell=True)',
+    severity: 'error',
+    language: 'python',
+    fix: 'Call subprocess.run with an argument list and shell=False.',
+    matcher: { type: 'pattern', pattern: /\bos\.(system|popen)\s*\(|\bsubprocess\.\w+\(.*\bshell\s*=\s*True/ }
+  },
+  {
+    id: 'py/tls-verification-disabled',
+    name: 'TLS certificate verification disabled',
+    description: 'TLS certificate verification is disabled',
+    severity: 'error',
+    language: 'python',
+    fix: 'Keep verify=True; point verify at a CA bundle for private certificates.',
+    matcher: { type: 'pattern', pattern: /\bverify\s*=\s*False\b|\bssl\._create_unverified_context\b|\bCERT_NONE\b/ }
+  },
+  {
+    id: 'py/open-cors',
+    name: 'CORS open to any origin',
+    description: 'CORS allows requests from any origin',
+    severity: 'warning',
+    language: 'python',
+    fix: 'List the allowed origins explicitly.',
+    matcher: { type: 'pattern', pattern: /\b(allow_origins|origins)\s*=\s*(\[\s*)?["']\*["']|\bCORS\(\s*\w+\s*\)/ }
+  },
+  {
+    id: 'py/hardcoded-secret',
+    name: 'Hard-coded secret',
+    description: 'A credential is hard-coded in the source',
+    severity: 'error',
+    language: 'python',
+    fix: 'Read the value with os.environ or a secret store.',
+    matcher: { type: 'pattern', pattern: /\b\w*(password|passwd|secret|api_?key|access_?token|private_?key)\s*=\s*["'][^"']+["']/i }
+  },
+  {
+    id: 'html/inline-eval',
+    name: 'Dynamic code evaluation',
+    description: 'Inline script uses eval() or document.write()',
+    severity: 'error',
+    language: 'html',
+    fix: 'Move scripts to a .js file and build elements with createElement/textContent.',
+    matcher: { type: 'pattern', pattern: /(?<![\w.])eval\s*\(|\bdocument\.write(ln)?\s*\(/ }
+  },
+  {
+    id: 'html/javascript-url',
+    name: 'javascript: URL',
+    description: 'javascript: URLs run inline code and bypass a Content Security Policy',
+    severity: 'warning',
+    language: 'html',
+    fix: 'Attach an event listener from a script instead.',
+    matcher: { type: 'pattern', pattern: /\b(href|src|action)\s*=\s*["']\s*javascript:/i }
+  }
+];
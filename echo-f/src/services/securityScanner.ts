@@ -0,0 +1,191 @@
+import ts from 'typescript';
+import { GeneratedFile } from '../utils/generationOutput';
+import { SecretKind, SecretMatch, detectSecrets } from '../utils/secretDetection';
+import { DEFAULT_SECURITY_RULES } from './securityRules';
+
+export type SecuritySeverity = 'error' | 'warning' | 'note';
+// 'any' rules run on every generated file, including config and .env files
+export type SecurityLanguage = 'javascript' | 'python' | 'html' | 'any';
+
+// AST matchers see every node of a parsed JS/JSX/TS/TSX file and return a
+// message (or true for the rule's description) when the node is a finding.
+export interface AstMatcher {
+  type: 'ast';
+  match: (node: ts.Node, context: AstMatchContext) => string | boolean | undefined;
+}
+
+// Pattern matchers run line by line; comment lines are skipped
+export interface PatternMatcher {
+  type: 'pattern';
+  pattern: RegExp;
+}
+
+// Secret matchers report credentials found by the shared secret detector
+export interface SecretMatcher {
+  type: 'secret';
+  kinds: SecretKind[];
+}
+
+export interface AstMatchContext {
+  sourceFile: ts.SourceFile;
+  // Whether the file imports or requires child_process
+  importsChildProcess: boolean;
+}
+
+export interface SecurityRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: SecuritySeverity;
+  language: SecurityLanguage;
+  matcher: AstMatcher | PatternMatcher | SecretMatcher;
+  fix: string;
+}
+
+export interface SecurityFinding {
+  ruleId: string;
+  severity: SecuritySeverity;
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  fix: string;
+}
+
+const LANGUAGE_EXTENSIONS: Record<Exclude<SecurityLanguage, 'any'>, string[]> = {
+  javascript: ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx'],
+  python: ['.py'],
+  html: ['.html', '.htm']
+};
+
+const COMMENT_PREFIXES: Record<SecurityLanguage, string[]> = {
+  javascript: ['//', '/*', '*'],
+  python: ['#'],
+  html: ['<!--'],
+  any: []
+};
+
+const CHILD_PROCESS_IMPORT = /['"](node:)?child_process['"]/;
+
+const languageOf = (filename: string): SecurityLanguage | undefined => {
+  const lower = filename.toLowerCase();
+  return (Object.keys(LANGUAGE_EXTENSIONS) as (keyof typeof LANGUAGE_EXTENSIONS)[])
+    .find(language => LANGUAGE_EXTENSIONS[language].some(ext => lower.endsWith(ext)));
+};
+
+const scriptKindOf = (filename: string): ts.ScriptKind => {
+  if (filename.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filename.endsWith('.ts')) return ts.ScriptKind.TS;
+  return ts.ScriptKind.JSX;
+};
+
+const toFinding = (rule: SecurityRule, file: string, line: number, column: number, message: string | true): SecurityFinding => ({
+  ruleId: rule.id,
+  severity: rule.severity,
+  file,
+  line,
+  column,
+  message: message === true ? rule.description : message,
+  fix: rule.fix
+});
+
+// Runs registered rules over generated files in memory. JS/TS rules match
+// on the syntax tree, so code in comments and string literals never fires;
+// other languages fall back to line patterns.
+export class SecurityScanner {
+  private rules = new Map<string, SecurityRule>();
+
+  constructor(rules: SecurityRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  register(rule: SecurityRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Security rule ${rule.id} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  getRules(): SecurityRule[] {
+    return [...this.rules.values()];
+  }
+
+  scan(files: GeneratedFile[]): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+
+    const secretRules = this.getRules().filter(rule => rule.matcher.type === 'secret');
+
+    for (const file of files) {
+      if (secretRules.length > 0) {
+        findings.push(...this.scanSecrets(file, secretRules));
+      }
+
+      const language = languageOf(file.filename);
+      if (!language) continue;
+
+      const rules = this.getRules().filter(rule => rule.language === language);
+      const astRules = rules.filter(rule => rule.matcher.type === 'ast');
+      const patternRules = rules.filter(rule => rule.matcher.type === 'pattern');
+
+      if (astRules.length > 0) {
+        findings.push(...this.scanSyntaxTree(file, astRules));
+      }
+      if (patternRules.length > 0) {
+        findings.push(...this.scanLines(file, language, patternRules));
+      }
+    }
+
+    return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+  }
+
+  private scanSecrets(file: GeneratedFile, rules: SecurityRule[]): SecurityFinding[] {
+    return detectSecrets(file).flatMap((match: SecretMatch) => {
+      const rule = rules.find(candidate => (candidate.matcher as SecretMatcher).kinds.includes(match.kind));
+      return rule ? [toFinding(rule, file.filename, match.line, match.column, true)] : [];
+    });
+  }
+
+  private scanSyntaxTree(file: GeneratedFile, rules: SecurityRule[]): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    const sourceFile = ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true, scriptKindOf(file.filename));
+    const context: AstMatchContext = {
+      sourceFile,
+      importsChildProcess: CHILD_PROCESS_IMPORT.test(file.content)
+    };
+
+    const visit = (node: ts.Node): void => {
+      for (const rule of rules) {
+        const match = (rule.matcher as AstMatcher).match(node, context);
+        if (match) {
+          const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+          findings.push(toFinding(rule, file.filename, line + 1, character + 1, match));
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return findings;
+  }
+
+  private scanLines(file: GeneratedFile, language: SecurityLanguage, rules: SecurityRule[]): SecurityFinding[] {
+    const findings: SecurityFinding[] = [];
+    const commentPrefixes = COMMENT_PREFIXES[language];
+
+    file.content.split(/\r?\n/).forEach((text, index) => {
+      const trimmed = text.trim();
+      if (commentPrefixes.some(prefix => trimmed.startsWith(prefix))) return;
+
+      for (const rule of rules) {
+        const match = (rule.matcher as PatternMatcher).pattern.exec(text);
+        if (match) {
+          findings.push(toFinding(rule, file.filename, index + 1, match.index + 1, true));
+        }
+      }
+    });
+
+    return findings;
+  }
+}
+
+export default new SecurityScanner(DEFAULT_SECURITY_RULES);
@@ -0,0 +1,195 @@
+import Docker from 'dockerode';
+import fs from 'fs-extra';
+import path from 'path';
+
+export type TestFramework = 'npm' | 'pytest';
+
+export interface TestRunResult {
+  // Project directory the tests ran in, relative to the generated root
+  directory: string;
+  framework: TestFramework;
+  // error: dependencies could not be installed or the container failed
+  status: 'passed' | 'failed' | 'error' | 'timeout';
+  passed: number;
+  failed: number;
+  skipped: number;
+  exitCode?: number;
+  durationMs: number;
+  // Tail of the combined install and test output
+  output: string;
+}
+
+interface RunnerConfig {
+  image: string;
+  command: string;
+  env: string[];
+  cacheDir?: string;
+  // Writable cache directory inside the container
+  cacheMount: string;
+}
+
+const TIMEOUT_MS = parseInt(process.env.TEST_RUNNER_TIMEOUT_MS || '120000');
+const MEMORY_MB = parseInt(process.env.TEST_RUNNER_MEMORY_MB || '512');
+const CPUS = parseFloat(process.env.TEST_RUNNER_CPUS || '1');
+// Default 'none' keeps the container offline; installs then come from the
+// cache directories. Point this at a network that only reaches the mirror.
+const NETWORK = process.env.TEST_RUNNER_NETWORK || 'none';
+const MAX_OUTPUT_CHARS = 8000;
+
+// The host cache is mounted read-only here and copied into the container's
+// own writable layer, so installs run by generated code can never change
+// what later runs install from
+const CACHE_SEED_MOUNT = '/cache-seed';
+
+// Exit code the wrapper script uses when dependency installation fails
+const INSTALL_FAILED_EXIT_CODE = 97;
+
+// The npm init placeholder script fails on purpose; it is not a test suite
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/;
+const PYTEST_FILE = /(^|\/)(test_[^/]*|[^/]*_test)\.py$/;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+const truncateOutput = (output: string): string => {
+  const clean = output.replace(ANSI_ESCAPE, '').replace(/\r\n/g, '\n');
+  return clean.length > MAX_OUTPUT_CHARS
+    ? `[... ${clean.length - MAX_OUTPUT_CHARS} characters truncated]\n${clean.slice(-MAX_OUTPUT_CHARS)}`
+    : clean;
+};
+
+// Reads the last summary line of Jest, Vitest, Mocha or pytest output
+export const parseTestCounts = (output: string): { passed: number; failed: number; skipped: number } => {
+  const last = (pattern: RegExp): number => {
+    const matches = [...output.matchAll(pattern)];
+    return matches.length > 0 ? parseInt(matches[matches.length - 1][1]) : 0;
+  };
+
+  return {
+    passed: last(/(\d+) (?:passed|passing)\b/g),
+    failed: last(/(\d+) (?:failed|failing)\b/g),
+    skipped: last(/(\d+) (?:skipped|pending|todo)\b/g)
+  };
+};
+
+// Runs a generated project's tests in a throwaway container. The project
+// directory is mounted into the container, installs come from a copy of the
+// local package cache or from a mirror, and the container has no network
+// access by default.
+class TestRunnerService {
+  private docker: Docker;
+
+  constructor() {
+    this.docker = new Docker();
+  }
+
+  // Returns the test framework to use, or null when the project has no tests
+  async detect(projectDir: string, files: string[]): Promise<TestFramework | null> {
+    const packageJsonPath = path.join(projectDir, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      const packageJson = await fs.readJson(packageJsonPath).catch(() => ({}));
+      const testScript = packageJson.scripts?.test;
+      if (typeof testScript === 'string' && !PLACEHOLDER_TEST_SCRIPT.test(testScript)) {
+        return 'npm';
+      }
+    }
+
+    return files.some(file => PYTEST_FILE.test(file)) ? 'pytest' : null;
+  }
+
+  async run(projectDir: string, framework: TestFramework, directory: string = '.'): Promise<TestRunResult> {
+    const config = this.configFor(framework);
+    const binds = [`${projectDir}:/app`];
+    let command = config.command;
+    if (config.cacheDir) {
+      binds.push(`${config.cacheDir}:${CACHE_SEED_MOUNT}:ro`);
+      command = `mkdir -p ${config.cacheMount} && cp -R ${CACHE_SEED_MOUNT}/. ${config.cacheMount}/; ${command}`;
+    }
+
+    const startedAt = Date.now();
+    const container = await this.docker.createContainer({
+      Image: config.image,
+      Cmd: ['sh', '-c', command],
+      WorkingDir: '/app',
+      Env: ['CI=true', ...config.env],
+      Tty: true,
+      HostConfig: {
+        Binds: binds,
+        NetworkMode: NETWORK,
+        Memory: MEMORY_MB * 1024 * 1024,
+        NanoCpus: Math.round(CPUS * 1e9),
+        PidsLimit: 256,
+        CapDrop: ['ALL'],
+        SecurityOpt: ['no-new-privileges']
+      }
+    });
+
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await container.start();
+
+      const timeout = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), TIMEOUT_MS);
+      });
+      const outcome = await Promise.race([container.wait(), timeout]);
+
+      if (!outcome) {
+        timedOut = true;
+        await container.kill().catch(() => undefined);
+      }
+
+      const logs = await container.logs({ stdout: true, stderr: true, follow: false });
+      const output = truncateOutput(logs.toString());
+      const exitCode: number | undefined = outcome?.StatusCode;
+      const counts = parseTestCounts(output);
+
+      let status: TestRunResult['status'];
+      if (timedOut) status = 'timeout';
+      else if (exitCode === INSTALL_FAILED_EXIT_CODE) status = 'error';
+      else if (exitCode === 0) status = 'passed';
+      else status = 'failed';
+
+      return {
+        directory,
+        framework,
+        status,
+        ...counts,
+        exitCode,
+        durationMs: Date.now() - startedAt,
+        output
+      };
+    } finally {
+      clearTimeout(timer);
+      await container.remove({ force: true }).catch(() => undefined);
+    }
+  }
+
+  private configFor(framework: TestFramework): RunnerConfig {
+    if (framework === 'npm') {
+      const registry = process.env.TEST_NPM_REGISTRY;
+      return {
+        image: process.env.TEST_NODE_IMAGE || 'node:18-alpine',
+        command: `npm install --no-audit --no-fund --ignore-scripts --prefer-offline --cache /npm-cache || exit ${INSTALL_FAILED_EXIT_CODE}; npm test`,
+        env: registry ? [`npm_config_registry=${registry}`] : [],
+        cacheDir: process.env.TEST_NPM_CACHE_DIR,
+        cacheMount: '/npm-cache'
+      };
+    }
+
+    const indexUrl = process.env.TEST_PIP_INDEX_URL;
+    return {
+      image: process.env.TEST_PYTHON_IMAGE || 'python:3.11-slim',
+      command: [
+        `if [ -f requirements.txt ]; then pip install -q -r requirements.txt || exit ${INSTALL_FAILED_EXIT_CODE}; fi`,
+        `pip install -q pytest || exit ${INSTALL_FAILED_EXIT_CODE}`,
+        'python -m pytest -q -p no:cacheprovider'
+      ].join('; '),
+      env: ['PIP_CACHE_DIR=/pip-cache', 'PIP_DISABLE_PIP_VERSION_CHECK=1', ...(indexUrl ? [`PIP_INDEX_URL=${indexUrl}`] : [])],
+      cacheDir: process.env.TEST_PIP_CACHE_DIR,
+      cacheMount: '/pip-cache'
+    };
+  }
+}
+
+export default new TestRunnerService();
@@ -1,50 +1,125 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { SourceDiagnostic, checkSyntax, typeCheckProject } from '../utils/typescriptDiagnostics';
+import { checkVueComponent, extractVueScript } from '../utils/vueDiagnostics';
+import { checkAngularProject } from '../utils/angularDiagnostics';
+import { checkHtmlDocument } from '../utils/htmlDiagnostics';
+import { Workspace, runSandboxed } from '../utils/workspace';
+import { GeneratedFile } from '../utils/generationOutput';
+import {
+  DependencyReport,
+  ProjectFile,
+  checkPackageDependencies,
+  checkPythonDependencies,
+  findPythonImports,
+  parseRequirements
+} from '../utils/dependencyCheck';
+import { ValidationPolicy, isRuleSuppressed, resolveValidationPolicy } from '../config/validationPolicy';
+import securityScanner, { SecurityFinding } from './securityScanner';
+import testRunnerService, { TestRunResult } from './testRunnerService';
+
+export interface ValidationDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  source: 'syntax' | 'typecheck' | 'template' | 'style' | 'angular' | 'markup' | 'reference';
+}
 
-const execAsync = promisify(exec);
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  securityIssues: string[];
+  securityFindings: SecurityFinding[];
+  diagnostics: ValidationDiagnostic[];
+  testRuns: TestRunResult[];
+  // Policy the checks ran under
+  policy: ValidationPolicy;
+}
 
-interface ValidationResult {
+// What a generation stores of a validation run; its test runs and policy
+// are stored on the generation separately
+export interface ValidationReport {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   securityIssues: string[];
+  securityFindings: SecurityFinding[];
+  diagnostics: ValidationDiagnostic[];
+  validatedAt: Date;
 }
 
+export const toValidationReport = (result: ValidationResult): ValidationReport => ({
+  isValid: result.isValid,
+  errors: result.errors,
+  warnings: result.warnings,
+  securityIssues: result.securityIssues,
+  securityFindings: result.securityFindings,
+  diagnostics: result.diagnostics,
+  validatedAt: new Date()
+});
+
+const TEST_OUTPUT_LINES = 30;
+
+const DIAGNOSTIC_LABELS: Record<ValidationDiagnostic['source'], string> = {
+  syntax: 'Syntax error',
+  typecheck: 'Type error',
+  template: 'Template error',
+  style: 'Style error',
+  angular: 'Angular error',
+  markup: 'Markup error',
+  reference: 'Broken reference'
+};
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.vue'];
+
 class ValidationService {
-  async validateCode(files: { filename: string; content: string; language: string }[], stack: string): Promise<ValidationResult> {
+  // The policy decides which checks run and what fails validation besides
+  // errors; without one the server defaults apply
+  async validateCode(files: GeneratedFile[], stack: string, policy: ValidationPolicy = resolveValidationPolicy()): Promise<ValidationResult> {
     const result: ValidationResult = {
       isValid: true,
       errors: [],
       warnings: [],
-      securityIssues: []
+      securityIssues: [],
+      securityFindings: [],
+      diagnostics: [],
+      testRuns: [],
+      policy
     };
 
-    try {
-      // Create temporary directory for validation
-      const tempDir = path.join(process.cwd(), 'temp-validation', Date.now().toString());
-      await fs.ensureDir(tempDir);
+    let workspace: Workspace | undefined;
 
-      // Write files to temp directory
-      for (const file of files) {
-        const filePath = path.join(tempDir, file.filename);
-        await fs.ensureDir(path.dirname(filePath));
-        await fs.writeFile(filePath, file.content);
-      }
+    try {
+      // Unsafe paths or oversized projects fail validation like any other error
+      workspace = await Workspace.create('temp-validation', files);
+      const tempDir = workspace.root;
 
       // Run validation based on stack
       await this.runStackSpecificValidation(tempDir, stack, result);
 
       // Run security scan
-      await this.runSecurityScan(tempDir, result);
+      if (policy.checks.security) {
+        this.runSecurityScan(files, result);
+      }
 
-      // Cleanup
-      await fs.remove(tempDir);
+      // Only code that passed the static checks is worth executing
+      if (policy.checks.tests && result.errors.length === 0) {
+        await this.runTests(tempDir, stack, result);
+      }
 
-    } catch (error) {
+      if (policy.failOnWarnings) {
+        result.errors.push(...result.warnings.map(warning => `Warning treated as error: ${warning}`));
+        result.warnings = [];
+      }
+
+      result.isValid = result.errors.length === 0;
+    } catch (error: any) {
       result.isValid = false;
       result.errors.push(`Validation failed: ${error.message}`);
+    } finally {
+      await workspace?.remove().catch(() => undefined);
     }
 
     return result;
@@ -54,12 +129,14 @@ class ValidationService {
     switch (stack) {
       case 'react':
       case 'vue':
-      case 'angular':
       case 'node':
       case 'react-native':
       case 'electron':
         await this.validateJavaScript(tempDir, result);
         break;
+      case 'angular':
+        await this.validateAngular(tempDir, result);
+        break;
       case 'python':
         await this.validatePython(tempDir, result);
         break;
@@ -74,7 +151,11 @@ class ValidationService {
     }
   }
 
-  private async validateJavaScript(tempDir: string, result: ValidationResult): Promise<void> {
+  // rootDir is the top of the generated project; diagnostics name files
+  // relative to it, e.g. frontend/src/App.tsx for full-stack projects.
+  private async validateJavaScript(tempDir: string, result: ValidationResult, rootDir: string = tempDir): Promise<void> {
+    const { checks } = result.policy;
+
     try {
       // Check for package.json
       const packageJsonPath = path.join(tempDir, 'package.json');
@@ -90,10 +171,31 @@ class ValidationService {
         result.errors.push('Invalid package.json: missing name or version');
       }
 
-      // Check for syntax errors in JS files
-      const jsFiles = await this.findFiles(tempDir, ['.js', '.jsx', '.ts', '.tsx']);
-      for (const file of jsFiles) {
-        await this.checkJavaScriptSyntax(file, result);
+      // Check for syntax errors in JS/TS files and Vue components
+      const jsFiles = await this.findFiles(tempDir, SCRIPT_EXTENSIONS);
+      if (checks.syntax) {
+        for (const file of jsFiles) {
+          await this.checkJavaScriptSyntax(file, rootDir, result);
+        }
+      }
+
+      // Compare imported packages with the manifest
+      if (checks.dependencies) {
+        const sources = await this.readProjectFiles(jsFiles, rootDir);
+        const manifest = this.toRelative(rootDir, packageJsonPath);
+        this.reportDependencies(checkPackageDependencies(sources, packageJson), manifest, result);
+      }
+
+      if (checks.typecheck) {
+        try {
+          const typeErrors = await typeCheckProject(tempDir, rootDir);
+          for (const diagnostic of typeErrors || []) {
+            this.addDiagnostic(result, diagnostic, 'typecheck');
+          }
+        } catch (error: any) {
+          // The compiler could not finish; that says nothing about the code
+          result.warnings.push(`Type check unavailable: ${error.message}`);
+        }
       }
 
     } catch (error) {
@@ -101,17 +203,53 @@ class ValidationService {
     }
   }
 
+  // Angular projects get the JavaScript checks plus component metadata and
+  // NgModule/standalone consistency checks
+  private async validateAngular(tempDir: string, result: ValidationResult): Promise<void> {
+    await this.validateJavaScript(tempDir, result);
+    if (!result.policy.checks.framework) return;
+
+    try {
+      const packageJsonPath = path.join(tempDir, 'package.json');
+      const packageJson = await fs.pathExists(packageJsonPath) ? await fs.readJson(packageJsonPath) : {};
+      const angularCore = packageJson.dependencies?.['@angular/core'] || packageJson.devDependencies?.['@angular/core'];
+
+      const allFiles = await this.findFiles(tempDir, ['']);
+      const tsFiles = await this.readProjectFiles(allFiles.filter(file => file.endsWith('.ts')), tempDir);
+      const projectFiles = new Set(allFiles.map(file => this.toRelative(tempDir, file)));
+
+      for (const diagnostic of checkAngularProject(tsFiles, projectFiles, angularCore)) {
+        this.addDiagnostic(result, diagnostic, 'angular');
+      }
+    } catch (error: any) {
+      result.errors.push(`Angular validation failed: ${error.message}`);
+    }
+  }
+
   private async validatePython(tempDir: string, result: ValidationResult): Promise<void> {
+    const { checks } = result.policy;
+
     try {
       const pyFiles = await this.findFiles(tempDir, ['.py']);
-      for (const file of pyFiles) {
-        await this.checkPythonSyntax(file, result);
+      if (checks.syntax) {
+        for (const file of pyFiles) {
+          await this.checkPythonSyntax(file, tempDir, result);
+        }
       }
 
-      // Check for requirements.txt
+      // Compare imported modules with requirements.txt
+      if (!checks.dependencies) return;
+
+      const sources = await this.readProjectFiles(pyFiles, tempDir);
       const requirementsPath = path.join(tempDir, 'requirements.txt');
       if (!await fs.pathExists(requirementsPath)) {
-        result.warnings.push('Missing requirements.txt file');
+        const imported = [...findPythonImports(sources).keys()];
+        result.warnings.push(imported.length > 0
+          ? `Missing requirements.txt file (third-party imports: ${imported.join(', ')})`
+          : 'Missing requirements.txt file');
+      } else {
+        const requirements = parseRequirements(await fs.readFile(requirementsPath, 'utf-8'));
+        this.reportDependencies(checkPythonDependencies(sources, requirements), 'requirements.txt', result);
       }
     } catch (error) {
       result.errors.push(`Python validation failed: ${error.message}`);
@@ -120,9 +258,11 @@ class ValidationService {
 
   private async validateHTML(tempDir: string, result: ValidationResult): Promise<void> {
     try {
-      const htmlFiles = await this.findFiles(tempDir, ['.html']);
-      for (const file of htmlFiles) {
-        await this.checkHTMLStructure(file, result);
+      const allFiles = await this.findFiles(tempDir, ['']);
+      const projectFiles = new Set(allFiles.map(file => this.toRelative(tempDir, file)));
+
+      for (const file of allFiles.filter(file => /\.html?$/.test(file))) {
+        await this.checkHTMLStructure(file, tempDir, projectFiles, result);
       }
     } catch (error) {
       result.errors.push(`HTML validation failed: ${error.message}`);
@@ -144,84 +284,164 @@ class ValidationService {
 
     // Validate both parts
     if (await fs.pathExists(frontendDir)) {
-      await this.validateJavaScript(frontendDir, result);
+      await this.validateJavaScript(frontendDir, result, tempDir);
     }
 
     if (await fs.pathExists(backendDir)) {
-      await this.validateJavaScript(backendDir, result);
+      await this.validateJavaScript(backendDir, result, tempDir);
     }
   }
 
-  private async checkJavaScriptSyntax(filePath: string, result: ValidationResult): Promise<void> {
+  private async checkJavaScriptSyntax(filePath: string, rootDir: string, result: ValidationResult): Promise<void> {
     try {
-      // Use Node.js to check syntax
-      await execAsync(`node --check "${filePath}"`);
+      const content = await fs.readFile(filePath, 'utf-8');
+      const filename = this.toRelative(rootDir, filePath);
+
+      if (filename.endsWith('.vue')) {
+        for (const diagnostic of checkVueComponent(filename, content)) {
+          const source = diagnostic.block === 'template' || diagnostic.block === 'style' ? diagnostic.block : 'syntax';
+          this.addDiagnostic(result, diagnostic, source);
+        }
+        return;
+      }
+
+      for (const diagnostic of checkSyntax(filename, content)) {
+        this.addDiagnostic(result, diagnostic, 'syntax');
+      }
     } catch (error: any) {
-      result.errors.push(`Syntax error in ${path.basename(filePath)}: ${error.stderr || error.message}`);
+      result.errors.push(`Syntax check failed for ${path.basename(filePath)}: ${error.message}`);
     }
   }
 
-  private async checkPythonSyntax(filePath: string, result: ValidationResult): Promise<void> {
-    try {
-      await execAsync(`python -m py_compile "${filePath}"`);
-    } catch (error: any) {
-      result.errors.push(`Syntax error in ${path.basename(filePath)}: ${error.stderr || error.message}`);
-    }
+  private toRelative(rootDir: string, filePath: string): string {
+    return path.relative(rootDir, filePath).split(path.sep).join('/');
   }
 
-  private async checkHTMLStructure(filePath: string, result: ValidationResult): Promise<void> {
-    try {
+  // Vue components are reduced to their script blocks
+  private async readProjectFiles(filePaths: string[], rootDir: string): Promise<ProjectFile[]> {
+    return Promise.all(filePaths.map(async filePath => {
+      const filename = this.toRelative(rootDir, filePath);
       const content = await fs.readFile(filePath, 'utf-8');
+      return { filename, content: filename.endsWith('.vue') ? extractVueScript(filename, content) : content };
+    }));
+  }
 
-      // Basic HTML validation
-      if (!content.includes('<html>') && !content.includes('<!DOCTYPE html>')) {
-        result.warnings.push(`${path.basename(filePath)}: Missing DOCTYPE or html tag`);
-      }
+  // Undeclared imports break the project at install time, so they are
+  // errors; unused and misplaced declarations are warnings.
+  private reportDependencies(report: DependencyReport, manifest: string, result: ValidationResult): void {
+    for (const { name, files } of report.missing) {
+      result.errors.push(`Missing dependency "${name}" in ${manifest}: imported by ${files.join(', ')}`);
+    }
 
-      if (!content.includes('<head>')) {
-        result.warnings.push(`${path.basename(filePath)}: Missing head tag`);
-      }
+    for (const name of report.unused) {
+      result.warnings.push(`Unused dependency "${name}" in ${manifest}`);
+    }
 
-      if (!content.includes('<body>')) {
-        result.warnings.push(`${path.basename(filePath)}: Missing body tag`);
-      }
-    } catch (error: any) {
-      result.errors.push(`HTML validation failed for ${path.basename(filePath)}: ${error.message}`);
+    for (const { name, declaredIn, expectedIn, files } of report.misplaced) {
+      result.warnings.push(`Dependency "${name}" is in ${declaredIn} of ${manifest} but belongs in ${expectedIn} (imported by ${files.join(', ')})`);
+    }
+  }
+
+  private addDiagnostic(result: ValidationResult, diagnostic: Omit<SourceDiagnostic, 'code'>, source: ValidationDiagnostic['source']): void {
+    const { file, line, column, message } = diagnostic;
+    const label = DIAGNOSTIC_LABELS[source];
+
+    result.diagnostics.push({ file, line, column, message, source });
+    result.errors.push(`${label} in ${file}:${line}:${column} - ${message}`);
+  }
+
+  private async checkPythonSyntax(filePath: string, rootDir: string, result: ValidationResult): Promise<void> {
+    const filename = this.toRelative(rootDir, filePath);
+    const check = await runSandboxed('python3', ['-m', 'py_compile', filename], { cwd: rootDir });
+
+    if (check.timedOut) {
+      result.errors.push(`Syntax check timed out for ${filename}`);
+    } else if (check.exitCode === null) {
+      // The interpreter could not be started; that says nothing about the code
+      result.warnings.push(`Python syntax check unavailable: ${check.stderr.trim()}`);
+    } else if (check.exitCode !== 0) {
+      result.errors.push(`Syntax error in ${filename}: ${check.stderr.trim()}`);
     }
   }
 
-  private async runSecurityScan(tempDir: string, result: ValidationResult): Promise<void> {
+  // Markup and reference problems are errors; accessibility findings and a
+  // missing doctype are warnings
+  private async checkHTMLStructure(filePath: string, rootDir: string, projectFiles: Set<string>, result: ValidationResult): Promise<void> {
+    const filename = this.toRelative(rootDir, filePath);
+
     try {
-      // Check for common security issues
-      const allFiles = await this.findFiles(tempDir, ['.js', '.ts', '.jsx', '.tsx', '.py', '.html']);
+      const content = await fs.readFile(filePath, 'utf-8');
 
-      for (const file of allFiles) {
-        const content = await fs.readFile(file, 'utf-8');
+      for (const issue of checkHtmlDocument(filename, content, projectFiles)) {
+        if (!result.policy.checks[issue.category === 'accessibility' ? 'accessibility' : 'markup']) continue;
 
-        // Check for dangerous patterns
-        if (content.includes('eval(')) {
-          result.securityIssues.push(`${path.basename(file)}: Use of eval() detected - security risk`);
+        if (issue.severity === 'error') {
+          this.addDiagnostic(result, issue, issue.category === 'reference' ? 'reference' : 'markup');
+        } else {
+          result.warnings.push(`${issue.file}:${issue.line}:${issue.column} - ${issue.message}`);
         }
+      }
+    } catch (error: any) {
+      result.errors.push(`HTML validation failed for ${filename}: ${error.message}`);
+    }
+  }
 
-        if (content.includes('innerHTML')) {
-          result.warnings.push(`${path.basename(file)}: Use of innerHTML detected - consider using textContent or createElement`);
+  // Failing or hanging tests fail validation and their output goes to the
+  // repair loop; an unavailable Docker daemon or failed install only warns.
+  private async runTests(tempDir: string, stack: string, result: ValidationResult): Promise<void> {
+    const directories = stack === 'node-react-fullstack' ? ['backend', 'frontend'] : ['.'];
+    const allFiles = (await this.findFiles(tempDir, [''])).map(file => this.toRelative(tempDir, file));
+
+    for (const directory of directories) {
+      const projectDir = path.join(tempDir, directory);
+      const prefix = directory === '.' ? '' : `${directory}/`;
+      if (!await fs.pathExists(projectDir)) continue;
+
+      const framework = await testRunnerService.detect(projectDir, allFiles.filter(file => file.startsWith(prefix)));
+      if (!framework) continue;
+
+      const label = directory === '.' ? 'Generated tests' : `Generated tests in ${directory}`;
+
+      try {
+        const run = await testRunnerService.run(projectDir, framework, directory);
+        const tail = run.output.trimEnd().split('\n').slice(-TEST_OUTPUT_LINES).join('\n');
+        result.testRuns.push(run);
+
+        if (run.status === 'failed') {
+          result.errors.push(`${label} failed (${run.failed} failed, ${run.passed} passed):\n${tail}`);
+        } else if (run.status === 'timeout') {
+          result.errors.push(`${label} timed out after ${Math.round(run.durationMs / 1000)}s:\n${tail}`);
+        } else if (run.status === 'error') {
+          result.warnings.push(`${label} were not run: installing dependencies failed`);
         }
+      } catch (error: any) {
+        result.warnings.push(`${label} were not run: ${error.message}`);
+      }
+    }
+  }
 
-        if (content.includes('document.write')) {
-          result.securityIssues.push(`${path.basename(file)}: Use of document.write detected - security risk`);
-        }
+  // Errors are reported as security issues; lower severities as warnings.
+  // Findings fail validation only when the policy blocks their severity,
+  // and suppressed rules are dropped altogether.
+  private runSecurityScan(files: GeneratedFile[], result: ValidationResult): void {
+    const { policy } = result;
 
-        // Check for hardcoded secrets
-        const secretPatterns = [
-          /password\s*[:=]\s*['"][^'"]*['"]/i,
-          /api[_-]?key\s*[:=]\s*['"][^'"]*['"]/i,
-          /secret\s*[:=]\s*['"][^'"]*['"]/i
-        ];
+    try {
+      for (const finding of securityScanner.scan(files)) {
+        if (isRuleSuppressed(policy, finding.ruleId)) continue;
 
-        for (const pattern of secretPatterns) {
-          if (pattern.test(content)) {
-            result.securityIssues.push(`${path.basename(file)}: Potential hardcoded secret detected`);
-          }
+        const message = `${finding.file}:${finding.line}:${finding.column} - ${finding.message} [${finding.ruleId}]`;
+        const blocking = policy.blockingSeverities.includes(finding.severity);
+
+        result.securityFindings.push(finding);
+        if (finding.severity === 'error') {
+          result.securityIssues.push(message);
+        }
+
+        if (blocking) {
+          result.errors.push(`Security issue in ${message}`);
+        } else if (finding.severity !== 'error') {
+          result.warnings.push(message);
         }
       }
     } catch (error: any) {
@@ -237,11 +457,13 @@ class ValidationService {
 
       for (const item of items) {
         const itemPath = path.join(currentDir, item);
-        const stat = await fs.stat(itemPath);
+        // lstat so a symlink can never lead the scan outside the workspace
+        const stat = await fs.lstat(itemPath);
 
+        if (stat.isSymbolicLink()) continue;
         if (stat.isDirectory()) {
           await scan(itemPath);
-        } else if (extensions.some(ext => item.endsWith(ext))) {
+        } else if (stat.isFile() && extensions.some(ext => item.endsWith(ext))) {
           files.push(itemPath);
         }
       }
@@ -2,6 +2,7 @@ import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import User from '../models/User';
 import Project from '../models/Project';
+import generationProgress from '../services/generationProgress';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -9,6 +10,9 @@ interface AuthenticatedSocket extends Socket {
 }
 
 export const setupSocketHandlers = (io: Server): void => {
+  // Let the generation pipeline push progress to connected users
+  generationProgress.attach(io);
+
   // Middleware for authentication
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
@@ -34,7 +38,10 @@ export const setupSocketHandlers = (io: Server): void => {
   });
 
   io.on('connection', (socket: AuthenticatedSocket) => {
-    console.log(`User connected: ${socket.userId} - socketHandlers.ts:37`);
+    console.log(`User connected: ${socket.userId} - socketHandlers.ts:41`);
+
+    // Personal room used for server-pushed events such as generation progress
+    socket.join(socket.userId!);
 
     // Join project room
     socket.on('join-project', async (projectId: string) => {
@@ -0,0 +1,128 @@
+import { checkAngularProject, standaloneByDefault } from './angularDiagnostics';
+
+const file = (filename: string, ...lines: string[]) => ({ filename, content: lines.join('\n') });
+
+const check = (files: { filename: string; content: string }[], angularCoreRange?: string, extraFiles: string[] = []) => {
+  const projectFiles = new Set([...files.map(item => item.filename), ...extraFiles]);
+  return checkAngularProject(files, projectFiles, angularCoreRange).map(diagnostic => diagnostic.message);
+};
+
+const appComponent = (metadata: string) => file(
+  'src/app/app.component.ts',
+  "import { Component } from '@angular/core';",
+  `@Component(${metadata})`,
+  'export class AppComponent {}'
+);
+
+describe('standaloneByDefault', () => {
+  it.each([
+    ['^19.0.0', true],
+    ['~18.2.0', false],
+    ['17', false],
+    ['latest', undefined],
+    [undefined, undefined]
+  ])('reads %s as %s', (range, expected) => {
+    expect(standaloneByDefault(range)).toBe(expected);
+  });
+});
+
+describe('checkAngularProject', () => {
+  it('accepts a standalone application', () => {
+    const files = [
+      appComponent("{ selector: 'app-root', standalone: true, templateUrl: './app.component.html', styleUrls: ['./app.component.css'] }"),
+      file('src/main.ts', "bootstrapApplication(AppComponent);")
+    ];
+
+    expect(check(files, '^17.0.0', ['src/app/app.component.html', 'src/app/app.component.css'])).toEqual([]);
+  });
+
+  it('accepts a module-based application', () => {
+    const files = [
+      appComponent("{ selector: 'app-root', template: '<p>Hi</p>' }"),
+      file(
+        'src/app/app.module.ts',
+        '@NgModule({ declarations: [AppComponent], bootstrap: [AppComponent] })',
+        'export class AppModule {}'
+      )
+    ];
+
+    expect(check(files, '^16.0.0')).toEqual([]);
+  });
+
+  it('reports templates and styles that do not exist', () => {
+    const files = [appComponent("{ standalone: true, templateUrl: './app.component.html', styleUrl: './missing.css' }")];
+
+    expect(check(files, '^17.0.0')).toEqual([
+      'AppComponent references ./app.component.html, but src/app/app.component.html does not exist',
+      'AppComponent references ./missing.css, but src/app/missing.css does not exist'
+    ]);
+  });
+
+  it('reports components without exactly one template source', () => {
+    expect(check([appComponent('{ standalone: true }')], '^17.0.0')).toEqual(['AppComponent has neither template nor templateUrl']);
+    expect(check([appComponent("{ standalone: true, template: '<p />', templateUrl: './a.html' }")], '^17.0.0', ['src/app/a.html']))
+      .toEqual(['AppComponent sets both template and templateUrl']);
+  });
+
+  it('reports declarables that are neither standalone nor declared', () => {
+    expect(check([appComponent("{ template: '<p />' }")], '^16.0.0')).toEqual([
+      'Component AppComponent is not standalone and is not declared in any NgModule'
+    ]);
+  });
+
+  it('treats components as standalone by default from Angular 19', () => {
+    expect(check([appComponent("{ template: '<p />' }")], '^19.0.0')).toEqual([]);
+  });
+
+  it('reports standalone components declared in a module', () => {
+    const files = [
+      appComponent("{ standalone: true, template: '<p />' }"),
+      file('src/app/app.module.ts', '@NgModule({ declarations: [AppComponent] })', 'export class AppModule {}')
+    ];
+
+    expect(check(files, '^17.0.0')).toEqual([
+      'AppComponent is standalone and cannot be declared in AppModule; add it to imports instead'
+    ]);
+  });
+
+  it('reports declarations in more than one module and unknown declarations', () => {
+    const files = [
+      appComponent("{ template: '<p />' }"),
+      file('src/app/a.module.ts', '@NgModule({ declarations: [AppComponent, Missing] })', 'export class AModule {}'),
+      file('src/app/b.module.ts', '@NgModule({ declarations: [AppComponent] })', 'export class BModule {}')
+    ];
+
+    expect(check(files, '^16.0.0')).toEqual([
+      'AModule declares Missing, which is not a component, directive or pipe in this project',
+      'Component AppComponent is declared in more than one NgModule (AModule, BModule)'
+    ]);
+  });
+
+  it('reports bootstrapping components that are not standalone or not declared', () => {
+    const files = [
+      appComponent("{ standalone: false, template: '<p />' }"),
+      file('src/app/app.module.ts', '@NgModule({ declarations: [AppComponent], bootstrap: [Other] })', 'export class AppModule {}'),
+      file('src/main.ts', 'bootstrapApplication(AppComponent);')
+    ];
+
+    expect(check(files)).toEqual([
+      'AppModule bootstraps Other without declaring it',
+      'bootstrapApplication needs a standalone component, but AppComponent is not standalone'
+    ]);
+  });
+
+  it('reports imports on components that are not standalone', () => {
+    const files = [
+      appComponent("{ standalone: false, template: '<p />', imports: [CommonModule] }"),
+      file('src/app/app.module.ts', '@NgModule({ declarations: [AppComponent] })', 'export class AppModule {}')
+    ];
+
+    expect(check(files)).toEqual([
+      'AppComponent is not standalone, so it cannot have imports; import them in its NgModule'
+    ]);
+  });
+
+  it('ignores spec files', () => {
+    expect(check([file('src/app/app.component.spec.ts', "@Component({ template: '<p />' })", 'class TestHost {}')], '^16.0.0')).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import path from 'path';
+import ts from 'typescript';
+import { SourceDiagnostic } from './typescriptDiagnostics';
+import { ProjectFile } from './dependencyCheck';
+
+type DeclarableKind = 'Component' | 'Directive' | 'Pipe';
+
+interface DecoratedClass {
+  name: string;
+  kind: DeclarableKind | 'NgModule';
+  file: string;
+  sourceFile: ts.SourceFile;
+  node: ts.Node;
+  metadata?: ts.ObjectLiteralExpression;
+  // undefined when it depends on an unknown Angular version
+  standalone?: boolean;
+}
+
+const DECORATORS = new Set(['Component', 'Directive', 'Pipe', 'NgModule']);
+
+// Angular 19 made components, directives and pipes standalone by default.
+// Returns undefined when the version cannot be read from the range.
+export const standaloneByDefault = (angularCoreRange?: string): boolean | undefined => {
+  const major = angularCoreRange?.match(/\d+/);
+  return major ? parseInt(major[0]) >= 19 : undefined;
+};
+
+const toDiagnostic = (file: string, sourceFile: ts.SourceFile, node: ts.Node, message: string): SourceDiagnostic => {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { file, line: line + 1, column: character + 1, message, code: 0 };
+};
+
+const findProperty = (metadata: ts.ObjectLiteralExpression, name: string): ts.PropertyAssignment | undefined => {
+  return metadata.properties.find((property): property is ts.PropertyAssignment =>
+    ts.isPropertyAssignment(property)
+    && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+    && property.name.text === name
+  );
+};
+
+const arrayElements = (property?: ts.PropertyAssignment): ts.Expression[] => {
+  return property && ts.isArrayLiteralExpression(property.initializer) ? [...property.initializer.elements] : [];
+};
+
+interface BootstrapCall {
+  file: string;
+  sourceFile: ts.SourceFile;
+  component: ts.Identifier;
+}
+
+const parseFile = (file: ProjectFile): ts.SourceFile => {
+  return ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+};
+
+// bootstrapApplication(AppComponent) calls, usually in main.ts
+const collectBootstrapCalls = (file: ProjectFile, sourceFile: ts.SourceFile): BootstrapCall[] => {
+  const calls: BootstrapCall[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)
+      && ts.isIdentifier(node.expression)
+      && node.expression.text === 'bootstrapApplication'
+      && node.arguments[0] && ts.isIdentifier(node.arguments[0])) {
+      calls.push({ file: file.filename, sourceFile, component: node.arguments[0] });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return calls;
+};
+
+const collectDecoratedClasses = (file: ProjectFile, sourceFile: ts.SourceFile, standaloneDefault?: boolean): DecoratedClass[] => {
+  const classes: DecoratedClass[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isClassDeclaration(node) && node.name) {
+      for (const decorator of ts.getDecorators(node) || []) {
+        const call = decorator.expression;
+        if (!ts.isCallExpression(call) || !ts.isIdentifier(call.expression) || !DECORATORS.has(call.expression.text)) continue;
+
+        const kind = call.expression.text as DecoratedClass['kind'];
+        const [argument] = call.arguments;
+        const metadata = argument && ts.isObjectLiteralExpression(argument) ? argument : undefined;
+        const flag = metadata && findProperty(metadata, 'standalone')?.initializer;
+
+        classes.push({
+          name: node.name.text,
+          kind,
+          file: file.filename,
+          sourceFile,
+          node: node.name,
+          metadata,
+          standalone: flag?.kind === ts.SyntaxKind.TrueKeyword ? true
+            : flag?.kind === ts.SyntaxKind.FalseKeyword ? false
+              : standaloneDefault
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return classes;
+};
+
+// templateUrl and styleUrls are relative to the component file
+const checkResource = (component: DecoratedClass, node: ts.Expression, projectFiles: Set<string>, diagnostics: SourceDiagnostic[]): void => {
+  if (!ts.isStringLiteralLike(node)) return;
+
+  const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(component.file), node.text));
+  if (!projectFiles.has(resolved)) {
+    diagnostics.push(toDiagnostic(component.file, component.sourceFile, node, `${component.name} references ${node.text}, but ${resolved} does not exist`));
+  }
+};
+
+const checkComponentMetadata = (component: DecoratedClass, projectFiles: Set<string>, diagnostics: SourceDiagnostic[]): void => {
+  const { metadata } = component;
+  if (!metadata) {
+    diagnostics.push(toDiagnostic(component.file, component.sourceFile, component.node, `@Component on ${component.name} needs a metadata object`));
+    return;
+  }
+
+  const template = findProperty(metadata, 'template');
+  const templateUrl = findProperty(metadata, 'templateUrl');
+  if (!template && !templateUrl) {
+    diagnostics.push(toDiagnostic(component.file, component.sourceFile, component.node, `${component.name} has neither template nor templateUrl`));
+  } else if (template && templateUrl) {
+    diagnostics.push(toDiagnostic(component.file, component.sourceFile, templateUrl, `${component.name} sets both template and templateUrl`));
+  }
+
+  if (templateUrl) {
+    checkResource(component, templateUrl.initializer, projectFiles, diagnostics);
+  }
+
+  const styleUrl = findProperty(metadata, 'styleUrl');
+  if (styleUrl) {
+    checkResource(component, styleUrl.initializer, projectFiles, diagnostics);
+  }
+  for (const element of arrayElements(findProperty(metadata, 'styleUrls'))) {
+    checkResource(component, element, projectFiles, diagnostics);
+  }
+
+  const imports = findProperty(metadata, 'imports');
+  if (imports && component.standalone === false) {
+    diagnostics.push(toDiagnostic(component.file, component.sourceFile, imports, `${component.name} is not standalone, so it cannot have imports; import them in its NgModule`));
+  }
+};
+
+// Checks component metadata and that every component, directive and pipe is
+// either standalone or declared in exactly one NgModule. projectFiles holds
+// every file path in the project, relative to the project root.
+export const checkAngularProject = (files: ProjectFile[], projectFiles: Set<string>, angularCoreRange?: string): SourceDiagnostic[] => {
+  const standaloneDefault = standaloneByDefault(angularCoreRange);
+  const sources = files
+    .filter(file => file.filename.endsWith('.ts') && !file.filename.endsWith('.spec.ts'))
+    .map(file => ({ file, sourceFile: parseFile(file) }));
+  const classes = sources.flatMap(({ file, sourceFile }) => collectDecoratedClasses(file, sourceFile, standaloneDefault));
+
+  const diagnostics: SourceDiagnostic[] = [];
+  const declarables = new Map(classes.filter(item => item.kind !== 'NgModule').map(item => [item.name, item]));
+  const declaredIn = new Map<string, string[]>();
+
+  for (const component of classes.filter(item => item.kind === 'Component')) {
+    checkComponentMetadata(component, projectFiles, diagnostics);
+  }
+
+  for (const module of classes.filter(item => item.kind === 'NgModule')) {
+    if (!module.metadata) continue;
+
+    const declarations = arrayElements(findProperty(module.metadata, 'declarations'));
+    for (const element of declarations) {
+      if (!ts.isIdentifier(element)) continue;
+
+      const declared = declarables.get(element.text);
+      if (!declared) {
+        diagnostics.push(toDiagnostic(module.file, module.sourceFile, element, `${module.name} declares ${element.text}, which is not a component, directive or pipe in this project`));
+      } else if (declared.standalone === true) {
+        diagnostics.push(toDiagnostic(module.file, module.sourceFile, element, `${element.text} is standalone and cannot be declared in ${module.name}; add it to imports instead`));
+      } else {
+        declaredIn.set(element.text, [...(declaredIn.get(element.text) || []), module.name]);
+      }
+    }
+
+    const declaredNames = declarations.filter(ts.isIdentifier).map(element => element.text);
+    for (const element of arrayElements(findProperty(module.metadata, 'bootstrap'))) {
+      if (ts.isIdentifier(element) && !declaredNames.includes(element.text)) {
+        diagnostics.push(toDiagnostic(module.file, module.sourceFile, element, `${module.name} bootstraps ${element.text} without declaring it`));
+      }
+    }
+  }
+
+  for (const { file, sourceFile } of sources) {
+    for (const call of collectBootstrapCalls(file, sourceFile)) {
+      if (declarables.get(call.component.text)?.standalone === false) {
+        diagnostics.push(toDiagnostic(call.file, call.sourceFile, call.component, `bootstrapApplication needs a standalone component, but ${call.component.text} is not standalone`));
+      }
+    }
+  }
+
+  for (const declarable of declarables.values()) {
+    if (declarable.standalone !== false) continue;
+    // Abstract base directives have no selector and are never declared
+    if (declarable.kind === 'Directive' && !(declarable.metadata && findProperty(declarable.metadata, 'selector'))) continue;
+
+    const modules = declaredIn.get(declarable.name) || [];
+    if (modules.length === 0) {
+      diagnostics.push(toDiagnostic(declarable.file, declarable.sourceFile, declarable.node, `${declarable.kind} ${declarable.name} is not standalone and is not declared in any NgModule`));
+    } else if (modules.length > 1) {
+      diagnostics.push(toDiagnostic(declarable.file, declarable.sourceFile, declarable.node, `${declarable.kind} ${declarable.name} is declared in more than one NgModule (${modules.join(', ')})`));
+    }
+  }
+
+  return diagnostics;
+};
@@ -0,0 +1,27 @@
+export class GenerationCancelledError extends Error {
+  statusCode = 409;
+  isOperational = true;
+
+  constructor(message = 'Generation was cancelled') {
+    super(message);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError();
+  }
+};
+
+// Rejects as soon as the signal fires, for racing against work that cannot
+// be interrupted directly.
+export const whenCancelled = (signal: AbortSignal): Promise<never> => {
+  return new Promise((_, reject) => {
+    if (signal.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+    signal.addEventListener('abort', () => reject(new GenerationCancelledError()), { once: true });
+  });
+};
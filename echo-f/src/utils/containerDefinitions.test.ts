@@ -0,0 +1,121 @@
+import { containerFiles, generateComposeFile, getContainerServices, notDeployableReason } from './containerDefinitions';
+
+const DEPLOYABLE_STACKS = ['react', 'vue', 'angular', 'node', 'python', 'html-css-js', 'node-react-fullstack'];
+
+describe('notDeployableReason', () => {
+  it.each(DEPLOYABLE_STACKS)('deploys %s', stack => {
+    expect(notDeployableReason(stack)).toBeNull();
+  });
+
+  it.each(['react-native', 'electron'])('explains why %s can not be deployed', stack => {
+    expect(notDeployableReason(stack)).toMatch(/can not be deployed as a container; download the project/);
+  });
+
+  it('rejects unknown stacks', () => {
+    expect(notDeployableReason('cobol')).toBe('The cobol stack can not be deployed');
+  });
+});
+
+describe('getContainerServices', () => {
+  it.each(DEPLOYABLE_STACKS)('has at least one published service for %s', stack => {
+    const services = getContainerServices(stack);
+
+    expect(services.length).toBeGreaterThan(0);
+    expect(services.some(service => service.exposed)).toBe(true);
+    for (const service of services) {
+      expect(service.dockerfile).toMatch(/^FROM \S+/);
+      expect(service.dockerfile).toContain(`EXPOSE ${service.port}`);
+    }
+  });
+
+  it('has no services for stacks that can not be deployed', () => {
+    expect(getContainerServices('electron')).toEqual([]);
+  });
+
+  it.each(['react', 'vue', 'angular'])('builds %s in a node stage and serves the output with nginx', stack => {
+    const [service] = getContainerServices(stack);
+
+    expect(service).toEqual(expect.objectContaining({ name: 'app', context: '.', port: 80, exposed: true }));
+    expect(service.dockerfile).toMatch(/^FROM node:\S+ AS build/);
+    expect(service.dockerfile).toContain('RUN npm run build');
+    expect(service.dockerfile).toContain('COPY --from=build /out /usr/share/nginx/html');
+    expect(service.dockerfile).toContain('try_files $uri $uri/ /index.html;');
+    expect(service.dockerfile).not.toContain('location /api/');
+  });
+
+  it('runs node servers as an unprivileged user without dev dependencies', () => {
+    const [service] = getContainerServices('node');
+
+    expect(service.port).toBe(3000);
+    expect(service.dockerfile).toContain('npm prune --omit=dev');
+    expect(service.dockerfile).toContain('ENV NODE_ENV=production HOST=0.0.0.0 PORT=3000');
+    expect(service.dockerfile).toContain('USER node');
+    expect(service.dockerfile).toContain('CMD ["npm", "start"]');
+  });
+
+  it('runs python servers as an unprivileged user', () => {
+    const [service] = getContainerServices('python');
+
+    expect(service.port).toBe(8000);
+    expect(service.dockerfile).toContain('pip install --no-cache-dir --prefix=/install -r requirements.txt');
+    expect(service.dockerfile).toContain('USER app');
+    expect(service.dockerfile).toContain('CMD ["python", "app.py"]');
+  });
+
+  it('serves html-css-js as is', () => {
+    const [service] = getContainerServices('html-css-js');
+
+    expect(service.dockerfile).toMatch(/^FROM nginx:\S+\nCOPY \. \/usr\/share\/nginx\/html\nEXPOSE 80$/);
+  });
+
+  it('starts the fullstack backend first and only publishes the frontend', () => {
+    const [backend, frontend] = getContainerServices('node-react-fullstack');
+
+    expect(backend).toEqual(expect.objectContaining({ name: 'backend', context: 'backend', port: 3000, exposed: false }));
+    expect(frontend).toEqual(expect.objectContaining({ name: 'frontend', context: 'frontend', port: 80, exposed: true }));
+    expect(frontend.dockerfile).toContain('proxy_pass http://backend:3000;');
+  });
+});
+
+describe('generateComposeFile', () => {
+  it('is only generated for stacks with more than one service', () => {
+    expect(generateComposeFile('react')).toBeNull();
+    expect(generateComposeFile('electron')).toBeNull();
+  });
+
+  it('wires the fullstack services together', () => {
+    expect(generateComposeFile('node-react-fullstack')).toBe([
+      'services:',
+      '  backend:',
+      '    build: ./backend',
+      '    restart: unless-stopped',
+      '    expose:',
+      '      - "3000"',
+      '  frontend:',
+      '    build: ./frontend',
+      '    restart: unless-stopped',
+      '    ports:',
+      '      - "80:80"',
+      '    depends_on:',
+      '      - backend',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('containerFiles', () => {
+  it('ships a Dockerfile at the root of single-service stacks', () => {
+    expect(containerFiles('node').map(item => item.filename)).toEqual(['Dockerfile']);
+  });
+
+  it('ships a Dockerfile per service and a compose file for the fullstack stack', () => {
+    const files = containerFiles('node-react-fullstack');
+
+    expect(files.map(item => item.filename)).toEqual(['backend/Dockerfile', 'frontend/Dockerfile', 'docker-compose.yml']);
+    expect(files.every(item => item.content.endsWith('\n'))).toBe(true);
+  });
+
+  it('ships nothing for stacks that can not be deployed', () => {
+    expect(containerFiles('react-native')).toEqual([]);
+  });
+});
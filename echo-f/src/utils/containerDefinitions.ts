@@ -0,0 +1,164 @@
+export interface ContainerService {
+  // Compose service name; also the host name other services reach it by
+  name: string;
+  // Build context relative to the project root
+  context: string;
+  dockerfile: string;
+  port: number;
+  // Whether the port is published; unpublished services are only reachable
+  // from the other services of the deployment
+  exposed: boolean;
+}
+
+// Stacks that produce something other than a server or a website
+const NOT_DEPLOYABLE: { [key: string]: string } = {
+  'react-native': 'React Native apps run on mobile devices and can not be deployed as a container; download the project and build it with Expo or the native toolchains',
+  'electron': 'Electron apps are desktop applications and can not be deployed as a container; download the project and package it with electron-builder'
+};
+
+const NODE_IMAGE = 'node:20-alpine';
+const PYTHON_IMAGE = 'python:3.12-slim';
+const NGINX_IMAGE = 'nginx:1.27-alpine';
+
+// Uses the lock file when the project ships one
+const NPM_INSTALL = 'if [ -f package-lock.json ]; then npm ci; else npm install; fi';
+
+// Single-page apps fall back to index.html; the fullstack frontend also
+// forwards /api/ to the backend service
+const nginxConfig = (apiUpstream?: string): string => [
+  'server {',
+  '  listen 80;',
+  '  root /usr/share/nginx/html;',
+  ...(apiUpstream ? [
+    '  location /api/ {',
+    `    proxy_pass ${apiUpstream};`,
+    '    proxy_set_header Host $host;',
+    '    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;',
+    '  }'
+  ] : []),
+  '  location / {',
+  '    try_files $uri $uri/ /index.html;',
+  '  }',
+  '}'
+].join('\\n');
+
+// Builds with the dev dependencies and serves only the output. React (Vite
+// or Create React App), Vue and Angular write it to different directories,
+// so the build stage copies the shallowest directory holding index.html.
+const spaDockerfile = (apiUpstream?: string): string => `FROM ${NODE_IMAGE} AS build
+WORKDIR /app
+COPY package*.json ./
+RUN ${NPM_INSTALL}
+COPY . .
+RUN npm run build \\
+  && index="$(find dist build -name index.html 2>/dev/null | awk -F/ '{ print NF, $0 }' | sort -n | head -n 1 | cut -d' ' -f2-)" \\
+  && test -n "$index" \\
+  && mkdir -p /out \\
+  && cp -r "$(dirname "$index")"/. /out/
+
+FROM ${NGINX_IMAGE}
+RUN printf '${nginxConfig(apiUpstream)}\\n' > /etc/nginx/conf.d/default.conf
+COPY --from=build /out /usr/share/nginx/html
+EXPOSE 80`;
+
+// Runs the optional build script with every dependency installed, then
+// drops the dev dependencies for the runtime image
+const nodeDockerfile = (port: number): string => `FROM ${NODE_IMAGE} AS build
+WORKDIR /app
+COPY package*.json ./
+RUN ${NPM_INSTALL}
+COPY . .
+RUN npm run build --if-present && npm prune --omit=dev
+
+FROM ${NODE_IMAGE}
+WORKDIR /app
+ENV NODE_ENV=production HOST=0.0.0.0 PORT=${port}
+COPY --from=build --chown=node:node /app ./
+USER node
+EXPOSE ${port}
+CMD ["npm", "start"]`;
+
+const pythonDockerfile = (port: number): string => `FROM ${PYTHON_IMAGE} AS build
+WORKDIR /app
+COPY requirements.txt .
+RUN pip install --no-cache-dir --prefix=/install -r requirements.txt
+
+FROM ${PYTHON_IMAGE}
+WORKDIR /app
+ENV PYTHONUNBUFFERED=1 HOST=0.0.0.0 PORT=${port}
+COPY --from=build /install /usr/local
+COPY . .
+RUN useradd --create-home app
+USER app
+EXPOSE ${port}
+CMD ["python", "app.py"]`;
+
+const staticDockerfile = (): string => `FROM ${NGINX_IMAGE}
+COPY . /usr/share/nginx/html
+EXPOSE 80`;
+
+const app = (dockerfile: string, port: number): ContainerService[] => [
+  { name: 'app', context: '.', dockerfile, port, exposed: true }
+];
+
+// Services in start order
+const SERVICES: { [key: string]: () => ContainerService[] } = {
+  'react': () => app(spaDockerfile(), 80),
+  'vue': () => app(spaDockerfile(), 80),
+  'angular': () => app(spaDockerfile(), 80),
+  'node': () => app(nodeDockerfile(3000), 3000),
+  'python': () => app(pythonDockerfile(8000), 8000),
+  'html-css-js': () => app(staticDockerfile(), 80),
+  'node-react-fullstack': () => [
+    { name: 'backend', context: 'backend', dockerfile: nodeDockerfile(3000), port: 3000, exposed: false },
+    { name: 'frontend', context: 'frontend', dockerfile: spaDockerfile('http://backend:3000'), port: 80, exposed: true }
+  ]
+};
+
+// Why a stack can not be deployed, or null when it can
+export const notDeployableReason = (stack: string): string | null => {
+  if (NOT_DEPLOYABLE[stack]) return NOT_DEPLOYABLE[stack];
+  return SERVICES[stack] ? null : `The ${stack} stack can not be deployed`;
+};
+
+export const getContainerServices = (stack: string): ContainerService[] => {
+  return SERVICES[stack]?.() || [];
+};
+
+// A compose file for stacks with more than one service; Dockerfiles sit in
+// each service's build context
+export const generateComposeFile = (stack: string): string | null => {
+  const services = getContainerServices(stack);
+  if (services.length < 2) return null;
+
+  const lines = ['services:'];
+  services.forEach((service, index) => {
+    lines.push(`  ${service.name}:`);
+    lines.push(`    build: ./${service.context}`);
+    lines.push('    restart: unless-stopped');
+    if (service.exposed) {
+      lines.push('    ports:');
+      lines.push(`      - "${service.port}:${service.port}"`);
+    } else {
+      lines.push('    expose:');
+      lines.push(`      - "${service.port}"`);
+    }
+    if (index > 0) {
+      lines.push('    depends_on:');
+      services.slice(0, index).forEach(dependency => lines.push(`      - ${dependency.name}`));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+// Dockerfiles and compose file to ship with a project, keyed by path
+export const containerFiles = (stack: string): { filename: string; content: string }[] => {
+  const files = getContainerServices(stack).map(service => ({
+    filename: service.context === '.' ? 'Dockerfile' : `${service.context}/Dockerfile`,
+    content: `${service.dockerfile}\n`
+  }));
+
+  const compose = generateComposeFile(stack);
+  return compose ? [...files, { filename: 'docker-compose.yml', content: compose }] : files;
+};
@@ -0,0 +1,139 @@
+import {
+  checkPackageDependencies,
+  checkPythonDependencies,
+  findJavaScriptImports,
+  parseRequirements,
+  toPackageName
+} from './dependencyCheck';
+
+const file = (filename: string, content: string) => ({ filename, content });
+
+describe('toPackageName', () => {
+  it.each([
+    ['lodash/get', 'lodash'],
+    ['@scope/pkg/sub', '@scope/pkg'],
+    ['react', 'react']
+  ])('reads %s as %s', (specifier, name) => {
+    expect(toPackageName(specifier)).toBe(name);
+  });
+
+  it.each(['./utils', '../api', '/abs', '@/components/App', '~/lib', 'https://cdn.example.com/x.js', 'fs', 'node:path', 'fs/promises'])(
+    'ignores %s',
+    specifier => {
+      expect(toPackageName(specifier)).toBeNull();
+    }
+  );
+});
+
+describe('findJavaScriptImports', () => {
+  it('collects imports, requires and dynamic imports per package', () => {
+    const imports = findJavaScriptImports([
+      file('src/a.js', "import React from 'react';\nconst _ = require('lodash/get');"),
+      file('src/b.ts', "import type { Foo } from './foo';\nconst chart = await import('chart.js');\nimport x = require('react');")
+    ]);
+
+    expect(Object.fromEntries(imports)).toEqual({
+      react: ['src/a.js', 'src/b.ts'],
+      lodash: ['src/a.js'],
+      'chart.js': ['src/b.ts']
+    });
+  });
+
+  it('does not read imports from comments or strings', () => {
+    const imports = findJavaScriptImports([file('a.js', "// import axios from 'axios';\nconst text = \"require('moment')\";")]);
+
+    expect(imports.size).toBe(0);
+  });
+});
+
+describe('checkPackageDependencies', () => {
+  it('reports imported packages that are not declared', () => {
+    const report = checkPackageDependencies(
+      [file('src/index.js', "import express from 'express';\nimport axios from 'axios';")],
+      { dependencies: { express: '^4.18.0' } }
+    );
+
+    expect(report.missing).toEqual([{ name: 'axios', files: ['src/index.js'] }]);
+  });
+
+  it('accepts peer and optional dependencies', () => {
+    const report = checkPackageDependencies(
+      [file('index.js', "import react from 'react';\nimport fsevents from 'fsevents';")],
+      { peerDependencies: { react: '*' }, optionalDependencies: { fsevents: '*' } }
+    );
+
+    expect(report.missing).toEqual([]);
+  });
+
+  it('reports declared dependencies that nothing imports or runs', () => {
+    const report = checkPackageDependencies(
+      [file('server.js', "require('express');")],
+      {
+        dependencies: { express: '*', moment: '*', nodemon: '*', '@types/node': '*', serve: '*' },
+        scripts: { start: 'serve -s build' }
+      }
+    );
+
+    expect(report.unused).toEqual(['moment']);
+  });
+
+  it('reports runtime imports of devDependencies and test-only dependencies', () => {
+    const report = checkPackageDependencies(
+      [
+        file('src/app.js', "import chalk from 'chalk';"),
+        file('src/app.test.js', "import supertest from 'supertest';"),
+        file('jest.config.js', "require('ts-jest');")
+      ],
+      { dependencies: { supertest: '*' }, devDependencies: { chalk: '*', 'ts-jest': '*' } }
+    );
+
+    expect(report.misplaced).toEqual([
+      { name: 'chalk', declaredIn: 'devDependencies', expectedIn: 'dependencies', files: ['src/app.js'] },
+      { name: 'supertest', declaredIn: 'dependencies', expectedIn: 'devDependencies', files: ['src/app.test.js'] }
+    ]);
+  });
+});
+
+describe('parseRequirements', () => {
+  it('reads package names and skips comments, options and markers', () => {
+    const requirements = [
+      '# web',
+      'Flask==3.0.0',
+      'requests>=2.31 ; python_version >= "3.8"',
+      'uvicorn[standard]~=0.23',
+      '-r base.txt',
+      '--index-url https://pypi.example.com/simple',
+      'gunicorn  # server',
+      ''
+    ].join('\n');
+
+    expect(parseRequirements(requirements)).toEqual(['Flask', 'requests', 'uvicorn', 'gunicorn']);
+  });
+});
+
+describe('checkPythonDependencies', () => {
+  it('reports third-party imports missing from requirements.txt', () => {
+    const report = checkPythonDependencies(
+      [file('app.py', 'import os, json\nfrom flask import Flask\nimport requests as http\nfrom models import User'), file('models.py', 'import datetime')],
+      ['Flask']
+    );
+
+    expect(report.missing).toEqual([{ name: 'requests', files: ['app.py'] }]);
+  });
+
+  it('matches import names to their distribution names', () => {
+    const report = checkPythonDependencies(
+      [file('app.py', 'import yaml\nfrom bs4 import BeautifulSoup\nfrom flask_cors import CORS\nimport cv2')],
+      ['PyYAML', 'beautifulsoup4', 'Flask_Cors']
+    );
+
+    expect(report.missing).toEqual([{ name: 'opencv-python', files: ['app.py'] }]);
+    expect(report.unused).toEqual([]);
+  });
+
+  it('reports requirements that nothing imports, except servers and drivers', () => {
+    const report = checkPythonDependencies([file('app.py', 'import flask')], ['flask', 'numpy', 'gunicorn', 'psycopg2-binary']);
+
+    expect(report.unused).toEqual(['numpy']);
+  });
+});
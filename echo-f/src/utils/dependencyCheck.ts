@@ -0,0 +1,230 @@
+import { builtinModules } from 'module';
+import ts from 'typescript';
+
+export interface ProjectFile {
+  // Path relative to the project root
+  filename: string;
+  content: string;
+}
+
+export interface MissingDependency {
+  name: string;
+  files: string[];
+}
+
+export interface MisplacedDependency {
+  name: string;
+  declaredIn: 'dependencies' | 'devDependencies';
+  expectedIn: 'dependencies' | 'devDependencies';
+  files: string[];
+}
+
+export interface DependencyReport {
+  missing: MissingDependency[];
+  unused: string[];
+  misplaced: MisplacedDependency[];
+}
+
+interface PackageManifest {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+// Tests and tooling config may rely on devDependencies
+const DEV_ONLY_FILE = /(^|\/)(__tests__|__mocks__|test|tests)\/|\.(test|spec|stories)\.[cm]?[jt]sx?$|(^|\/)[^/]+\.config\.[cm]?[jt]s$|(^|\/)(jest|vitest)\.setup\.[cm]?[jt]s$/;
+
+// Packages that are used without being imported: type packages, CLIs and
+// runtimes that load them by name
+const IMPLICIT_PACKAGES = /^(@types\/|typescript$|tslib$|react-scripts$|react-dom$|nodemon$|ts-node$|concurrently$|cross-env$|dotenv-cli$|pm2$|eslint|prettier|tailwindcss$|postcss$|autoprefixer$|@babel\/|babel-|pg$|pg-hstore$|mysql2$|sqlite3$)/;
+
+// Python modules whose import name differs from the distribution name
+const PYTHON_IMPORT_ALIASES: Record<string, string> = {
+  bs4: 'beautifulsoup4',
+  cv2: 'opencv-python',
+  dateutil: 'python-dateutil',
+  dotenv: 'python-dotenv',
+  flask_cors: 'flask-cors',
+  flask_sqlalchemy: 'flask-sqlalchemy',
+  jose: 'python-jose',
+  jwt: 'pyjwt',
+  multipart: 'python-multipart',
+  pil: 'pillow',
+  psycopg2: 'psycopg2-binary',
+  sklearn: 'scikit-learn',
+  yaml: 'pyyaml'
+};
+
+// Python 3 standard library top-level modules
+const PYTHON_STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'base64', 'binascii', 'bisect', 'builtins',
+  'bz2', 'calendar', 'cgi', 'cmath', 'cmd', 'codecs', 'collections', 'colorsys', 'concurrent', 'configparser',
+  'contextlib', 'contextvars', 'copy', 'copyreg', 'csv', 'ctypes', 'curses', 'dataclasses', 'datetime', 'dbm',
+  'decimal', 'difflib', 'dis', 'doctest', 'email', 'encodings', 'enum', 'errno', 'faulthandler', 'fcntl',
+  'filecmp', 'fileinput', 'fnmatch', 'fractions', 'ftplib', 'functools', 'gc', 'getopt', 'getpass', 'gettext',
+  'glob', 'graphlib', 'grp', 'gzip', 'hashlib', 'heapq', 'hmac', 'html', 'http', 'imaplib', 'importlib',
+  'inspect', 'io', 'ipaddress', 'itertools', 'json', 'keyword', 'linecache', 'locale', 'logging', 'lzma',
+  'mailbox', 'marshal', 'math', 'mimetypes', 'mmap', 'multiprocessing', 'netrc', 'numbers', 'operator', 'os',
+  'pathlib', 'pdb', 'pickle', 'pkgutil', 'platform', 'plistlib', 'poplib', 'posix', 'pprint', 'profile',
+  'pstats', 'pty', 'pwd', 'py_compile', 'queue', 'quopri', 'random', 're', 'readline', 'reprlib',
+  'resource', 'rlcompleter', 'sched', 'secrets', 'select', 'selectors', 'shelve', 'shlex', 'shutil', 'signal',
+  'site', 'smtplib', 'socket', 'socketserver', 'sqlite3', 'ssl', 'stat', 'statistics', 'string', 'stringprep',
+  'struct', 'subprocess', 'sys', 'sysconfig', 'syslog', 'tarfile', 'tempfile', 'termios', 'textwrap',
+  'threading', 'time', 'timeit', 'tkinter', 'token', 'tokenize', 'tomllib', 'trace', 'traceback',
+  'tracemalloc', 'tty', 'turtle', 'types', 'typing', 'unicodedata', 'unittest', 'urllib', 'uuid', 'venv',
+  'warnings', 'wave', 'weakref', 'webbrowser', 'winreg', 'wsgiref', 'xml', 'xmlrpc', 'zipapp', 'zipfile',
+  'zipimport', 'zlib', 'zoneinfo'
+]);
+
+const PYTHON_IMPORT = /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/;
+const PYTHON_FROM_IMPORT = /^\s*from\s+([\w.]+)\s+import\b/;
+
+// "lodash/get" -> "lodash", "@scope/pkg/sub" -> "@scope/pkg"; null for
+// relative paths, path aliases, URLs and Node built-ins
+export const toPackageName = (specifier: string): string | null => {
+  if (/^(\.|\/|~\/|@\/|#|[a-z]+:\/\/)/.test(specifier) || specifier.startsWith('node:')) return null;
+
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  if (NODE_BUILTINS.has(name)) return null;
+
+  return name || null;
+};
+
+// Python distribution names compare case-insensitively with - and _ equal
+const normalizePythonName = (name: string): string => name.toLowerCase().replace(/_/g, '-');
+
+const groupByPackage = (imports: { name: string; file: string }[]): Map<string, string[]> => {
+  const packages = new Map<string, string[]>();
+  for (const { name, file } of imports) {
+    const files = packages.get(name) || [];
+    if (!files.includes(file)) files.push(file);
+    packages.set(name, files);
+  }
+  return packages;
+};
+
+// Collects import declarations, require() calls, dynamic import() and
+// import-equals in JS/TS files.
+export const findJavaScriptImports = (files: ProjectFile[]): Map<string, string[]> => {
+  const imports: { name: string; file: string }[] = [];
+
+  for (const file of files) {
+    const { importedFiles } = ts.preProcessFile(file.content, true, true);
+    for (const imported of importedFiles) {
+      const name = toPackageName(imported.fileName);
+      if (name) imports.push({ name, file: file.filename });
+    }
+  }
+
+  return groupByPackage(imports);
+};
+
+// Returns top-level Python modules that are neither stdlib, relative nor a
+// module or package of the project itself.
+export const findPythonImports = (files: ProjectFile[]): Map<string, string[]> => {
+  const localModules = new Set<string>();
+  for (const file of files) {
+    const parts = file.filename.replace(/\.py$/, '').split('/');
+    parts.forEach(part => localModules.add(part));
+  }
+
+  const imports: { name: string; file: string }[] = [];
+  for (const file of files) {
+    for (const line of file.content.split(/\r?\n/)) {
+      const fromMatch = PYTHON_FROM_IMPORT.exec(line);
+      const importMatch = PYTHON_IMPORT.exec(line);
+      const modules = fromMatch
+        ? [fromMatch[1]]
+        : importMatch ? importMatch[1].split(',').map(part => part.trim().split(/\s+/)[0]) : [];
+
+      for (const module of modules) {
+        const topLevel = module.split('.')[0];
+        if (!topLevel || PYTHON_STDLIB.has(topLevel) || localModules.has(topLevel)) continue;
+        imports.push({ name: topLevel, file: file.filename });
+      }
+    }
+  }
+
+  return groupByPackage(imports);
+};
+
+// Reads package names from requirements.txt, skipping comments, options
+// (-r, -e, --index-url) and environment markers.
+export const parseRequirements = (content: string): string[] => {
+  return content.split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line && !line.startsWith('-'))
+    .map(line => line.split(/[\s\[<>=!~;@]/)[0])
+    .filter(Boolean);
+};
+
+export const checkPackageDependencies = (files: ProjectFile[], manifest: PackageManifest): DependencyReport => {
+  const dependencies = Object.keys(manifest.dependencies || {});
+  const devDependencies = Object.keys(manifest.devDependencies || {});
+  const otherDeclared = [
+    ...Object.keys(manifest.peerDependencies || {}),
+    ...Object.keys(manifest.optionalDependencies || {})
+  ];
+  const scripts = Object.values(manifest.scripts || {}).join(' ');
+
+  const imports = findJavaScriptImports(files);
+  const report: DependencyReport = { missing: [], unused: [], misplaced: [] };
+
+  for (const [name, importingFiles] of imports) {
+    const inProd = dependencies.includes(name);
+    const inDev = devDependencies.includes(name);
+
+    if (!inProd && !inDev && !otherDeclared.includes(name)) {
+      report.missing.push({ name, files: importingFiles });
+      continue;
+    }
+
+    const runtimeFiles = importingFiles.filter(file => !DEV_ONLY_FILE.test(file));
+    if (inDev && !inProd && runtimeFiles.length > 0) {
+      report.misplaced.push({ name, declaredIn: 'devDependencies', expectedIn: 'dependencies', files: runtimeFiles });
+    } else if (inProd && runtimeFiles.length === 0) {
+      report.misplaced.push({ name, declaredIn: 'dependencies', expectedIn: 'devDependencies', files: importingFiles });
+    }
+  }
+
+  // Only production dependencies are reported as unused; dev tooling is
+  // mostly run from scripts or config rather than imported
+  report.unused = dependencies.filter(name => !imports.has(name)
+    && !IMPLICIT_PACKAGES.test(name)
+    && !scripts.includes(name.replace(/^@[^/]+\//, '')));
+
+  return report;
+};
+
+export const checkPythonDependencies = (files: ProjectFile[], requirements: string[]): DependencyReport => {
+  const declared = new Set(requirements.map(normalizePythonName));
+  const imports = findPythonImports(files);
+  const report: DependencyReport = { missing: [], unused: [], misplaced: [] };
+  const used = new Set<string>();
+
+  for (const [module, importingFiles] of imports) {
+    const candidates = [normalizePythonName(module)];
+    const alias = PYTHON_IMPORT_ALIASES[module.toLowerCase()];
+    if (alias) candidates.push(alias);
+
+    const match = candidates.find(candidate => declared.has(candidate));
+    if (match) {
+      used.add(match);
+    } else {
+      report.missing.push({ name: alias || module, files: importingFiles });
+    }
+  }
+
+  // Servers and drivers are commonly installed without being imported
+  report.unused = requirements.filter(name => {
+    const normalized = normalizePythonName(name);
+    return !used.has(normalized) && !/^(gunicorn|uvicorn|psycopg2(-binary)?|pymysql|python-dotenv|wheel|setuptools|pip)$/.test(normalized);
+  });
+
+  return report;
+};
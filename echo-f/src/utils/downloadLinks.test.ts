@@ -0,0 +1,57 @@
+import { signDownload, verifyDownloadSignature } from './downloadLinks';
+
+describe('download links', () => {
+  const generationId = '65a1b2c3d4e5f60718293a4b';
+  const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, DOWNLOAD_SIGNING_SECRET: 'test-signing-secret' };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('verifies a signature it issued', () => {
+    const expires = inOneHour();
+    const signature = signDownload(generationId, 'zip', expires);
+
+    expect(verifyDownloadSignature(generationId, 'zip', expires.toString(), signature)).toBe(true);
+  });
+
+  it('rejects a link whose generation, format or expiry was changed', () => {
+    const expires = inOneHour();
+    const signature = signDownload(generationId, 'zip', expires);
+
+    expect(verifyDownloadSignature('65a1b2c3d4e5f60718293a4c', 'zip', expires.toString(), signature)).toBe(false);
+    expect(verifyDownloadSignature(generationId, 'tar.gz', expires.toString(), signature)).toBe(false);
+    expect(verifyDownloadSignature(generationId, 'zip', (expires + 60).toString(), signature)).toBe(false);
+  });
+
+  it('rejects expired links and malformed signatures', () => {
+    const expired = Math.floor(Date.now() / 1000) - 1;
+
+    expect(verifyDownloadSignature(generationId, 'zip', expired.toString(), signDownload(generationId, 'zip', expired))).toBe(false);
+    expect(verifyDownloadSignature(generationId, 'zip', 'never', 'abc')).toBe(false);
+    expect(verifyDownloadSignature(generationId, 'zip', inOneHour().toString(), '')).toBe(false);
+  });
+
+  it('rejects signatures made with another key', () => {
+    const expires = inOneHour();
+    const signature = signDownload(generationId, 'zip', expires);
+    process.env.DOWNLOAD_SIGNING_SECRET = 'rotated-secret';
+
+    expect(verifyDownloadSignature(generationId, 'zip', expires.toString(), signature)).toBe(false);
+  });
+
+  it('is disabled without a dedicated signing secret', () => {
+    const expires = inOneHour();
+    const signature = signDownload(generationId, 'zip', expires);
+    delete process.env.DOWNLOAD_SIGNING_SECRET;
+    process.env.JWT_SECRET = 'jwt-secret';
+
+    expect(() => signDownload(generationId, 'zip', expires)).toThrow('DOWNLOAD_SIGNING_SECRET');
+    expect(verifyDownloadSignature(generationId, 'zip', expires.toString(), signature)).toBe(false);
+  });
+});
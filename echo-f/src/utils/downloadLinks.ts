@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+// Seconds a signed download link stays valid, by default and at most
+export const DOWNLOAD_LINK_TTL = parseInt(process.env.DOWNLOAD_LINK_TTL_SECONDS || '3600');
+export const DOWNLOAD_LINK_MAX_TTL = 7 * 24 * 60 * 60;
+
+// Links are signed with a key of their own, so neither secret can be used
+// to forge the other's tokens. Without it, signed links are disabled.
+export const isDownloadSigningConfigured = (): boolean => Boolean(process.env.DOWNLOAD_SIGNING_SECRET);
+
+const signingSecret = (): string => {
+  if (!process.env.DOWNLOAD_SIGNING_SECRET) {
+    throw new Error('DOWNLOAD_SIGNING_SECRET is not set');
+  }
+  return process.env.DOWNLOAD_SIGNING_SECRET;
+};
+
+// HMAC over the generation, the archive format and the expiry time (Unix
+// seconds), so none of them can be changed without invalidating the link
+export const signDownload = (generationId: string, format: string, expires: number): string => {
+  return crypto.createHmac('sha256', signingSecret())
+    .update(`${generationId}:${format}:${expires}`)
+    .digest('hex');
+};
+
+export const verifyDownloadSignature = (generationId: string, format: string, expires: string, signature: string): boolean => {
+  if (!isDownloadSigningConfigured()) return false;
+
+  const expiresAt = parseInt(expires);
+  if (!expiresAt || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signDownload(generationId, format, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
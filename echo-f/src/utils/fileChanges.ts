@@ -0,0 +1,82 @@
+import { createTwoFilesPatch, diffLines } from 'diff';
+import { GeneratedFile } from './generationOutput';
+
+export interface FileChange {
+  filename: string;
+  status: 'added' | 'modified' | 'deleted';
+  additions: number;
+  deletions: number;
+  diff: string;
+}
+
+const countLines = (value: string): number => {
+  if (!value) return 0;
+  return value.split('\n').length - (value.endsWith('\n') ? 1 : 0);
+};
+
+const describeChange = (filename: string, before: string, after: string, status: FileChange['status']): FileChange => {
+  let additions = 0;
+  let deletions = 0;
+
+  for (const part of diffLines(before, after)) {
+    if (part.added) additions += countLines(part.value);
+    if (part.removed) deletions += countLines(part.value);
+  }
+
+  return {
+    filename,
+    status,
+    additions,
+    deletions,
+    diff: createTwoFilesPatch(
+      status === 'added' ? '/dev/null' : `a/${filename}`,
+      status === 'deleted' ? '/dev/null' : `b/${filename}`,
+      before,
+      after
+    )
+  };
+};
+
+// Compares two complete file sets, e.g. a parent generation and the final
+// files of its refinement after any repair attempts.
+export const diffFileSets = (previous: GeneratedFile[], next: GeneratedFile[]): FileChange[] => {
+  const nextNames = new Set(next.map(file => file.filename));
+  const deleted = previous.filter(file => !nextNames.has(file.filename)).map(file => file.filename);
+
+  return applyFileChanges(previous, next, deleted).changes;
+};
+
+// Applies a refinement on top of the previous files. Files in `updated`
+// replace or add to the previous set, `deleted` paths are dropped, and every
+// other file is carried over untouched.
+export const applyFileChanges = (
+  previous: GeneratedFile[],
+  updated: GeneratedFile[],
+  deleted: string[] = []
+): { files: GeneratedFile[]; changes: FileChange[] } => {
+  const files = new Map(previous.map(file => [file.filename, file]));
+  const changes: FileChange[] = [];
+
+  for (const filename of deleted) {
+    const existing = files.get(filename);
+    if (!existing) continue;
+
+    files.delete(filename);
+    changes.push(describeChange(filename, existing.content, '', 'deleted'));
+  }
+
+  for (const file of updated) {
+    const existing = files.get(file.filename);
+    if (existing && existing.content === file.content) continue;
+
+    files.set(file.filename, file);
+    changes.push(describeChange(
+      file.filename,
+      existing ? existing.content : '',
+      file.content,
+      existing ? 'modified' : 'added'
+    ));
+  }
+
+  return { files: Array.from(files.values()), changes };
+};
@@ -0,0 +1,119 @@
+import { GenerationOutputError, extractPartialFiles, getLanguageFromFilename, parseGenerationOutput } from './generationOutput';
+
+describe('parseGenerationOutput', () => {
+  it('parses a JSON manifest', () => {
+    const output = parseGenerationOutput(JSON.stringify({
+      files: [
+        { path: './src/index.js', language: 'javascript', content: 'console.log(1);\n' },
+        { path: 'package.json', content: '{}' }
+      ],
+      documentation: '# App',
+      installationScript: 'npm install'
+    }));
+
+    expect(output.files).toEqual([
+      { filename: 'src/index.js', language: 'javascript', content: 'console.log(1);\n' },
+      { filename: 'package.json', language: 'json', content: '{}' }
+    ]);
+    expect(output.documentation).toBe('# App');
+    expect(output.installationScript).toBe('npm install');
+  });
+
+  it('accepts a manifest wrapped in a json fence', () => {
+    const output = parseGenerationOutput('```json\n{"files":[{"path":"app.py","content":"print(1)"}]}\n```');
+
+    expect(output.files).toEqual([{ filename: 'app.py', language: 'python', content: 'print(1)' }]);
+  });
+
+  it('keeps the last entry for a repeated path', () => {
+    const output = parseGenerationOutput(JSON.stringify({
+      files: [
+        { path: 'index.html', content: 'first' },
+        { path: './index.html', content: 'second' }
+      ]
+    }));
+
+    expect(output.files).toEqual([{ filename: 'index.html', language: 'html', content: 'second' }]);
+  });
+
+  it('falls back to fenced code blocks that name their path', () => {
+    const output = parseGenerationOutput([
+      '### src/App.tsx',
+      '```tsx',
+      'export const App = () => null;',
+      '```',
+      '',
+      '```css title="src/index.css"',
+      'body { margin: 0; }',
+      '```',
+      '',
+      '```js',
+      '// server.js',
+      'require("http");',
+      '```'
+    ].join('\n'));
+
+    expect(output.files).toEqual([
+      { filename: 'src/App.tsx', language: 'typescript', content: 'export const App = () => null;' },
+      { filename: 'src/index.css', language: 'css', content: 'body { margin: 0; }' },
+      { filename: 'server.js', language: 'javascript', content: 'require("http");' }
+    ]);
+  });
+
+  it('allows refinements that only delete files', () => {
+    const content = JSON.stringify({ files: [], deletedFiles: ['./old.js'] });
+
+    expect(parseGenerationOutput(content, { allowEmpty: true }).deletedFiles).toEqual(['old.js']);
+    expect(() => parseGenerationOutput(content)).toThrow('did not contain any files');
+  });
+
+  it.each([
+    ['empty output', '  '],
+    ['prose', 'Sure! Here is your app.'],
+    ['code blocks without paths', '```js\nconsole.log(1);\n```'],
+    ['an unterminated code block', '### app.js\n```js\nconsole.log(1);'],
+    ['a manifest whose files is not an array', '{"files": {}}'],
+    ['a manifest file without content', '{"files": [{"path": "a.js"}]}']
+  ])('rejects %s', (_, content) => {
+    expect(() => parseGenerationOutput(content)).toThrow(GenerationOutputError);
+  });
+});
+
+describe('extractPartialFiles', () => {
+  it('decodes complete and partially streamed files', () => {
+    const buffer = '{"files":[{"path":"a.js","content":"const a = \\"x\\";\\n"},{"path":"b.js","content":"let b = 1;\\n// cut';
+
+    expect(extractPartialFiles(buffer)).toEqual([
+      { filename: 'a.js', content: 'const a = "x";\n', complete: true },
+      { filename: 'b.js', content: 'let b = 1;\n// cut', complete: false }
+    ]);
+  });
+
+  it('drops an escape sequence cut off mid-stream', () => {
+    expect(extractPartialFiles('{"files":[{"path":"a.js","content":"line\\n\\u00')).toEqual([
+      { filename: 'a.js', content: 'line\n', complete: false }
+    ]);
+  });
+
+  it('skips entries that are not valid JSON instead of throwing', () => {
+    const buffer = '{"files":[{"path":"a.js","content":"bad \\x escape"},{"path":"b.js","content":"ok"}';
+
+    expect(extractPartialFiles(buffer)).toEqual([{ filename: 'b.js', content: 'ok', complete: true }]);
+  });
+
+  it('ignores files whose content has not started yet', () => {
+    expect(extractPartialFiles('{"files":[{"path":"a.js","lang')).toEqual([]);
+  });
+});
+
+describe('getLanguageFromFilename', () => {
+  it.each([
+    ['src/App.vue', 'vue'],
+    ['Dockerfile', 'dockerfile'],
+    ['backend/.gitignore', 'text'],
+    ['README.MD', 'markdown'],
+    ['LICENSE', 'text']
+  ])('maps %s to %s', (filename, language) => {
+    expect(getLanguageFromFilename(filename)).toBe(language);
+  });
+});
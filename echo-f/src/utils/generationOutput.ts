@@ -0,0 +1,338 @@
+export interface GeneratedFile {
+  filename: string;
+  content: string;
+  language: string;
+}
+
+export interface ParsedGenerationOutput {
+  files: GeneratedFile[];
+  documentation?: string;
+  installationScript?: string;
+  deletedFiles?: string[];
+}
+
+export interface ParseOptions {
+  // Refinements may legitimately only delete files
+  allowEmpty?: boolean;
+}
+
+export class GenerationOutputError extends Error {
+  statusCode = 502;
+  isOperational = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationOutputError';
+  }
+}
+
+// Describes the manifest format the model must answer with. Kept next to the
+// parser so the prompt and the parser cannot drift apart.
+export const OUTPUT_FORMAT_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly this shape:
+
+{
+  "files": [
+    { "path": "relative/path/to/file.ext", "language": "javascript", "content": "full file content" }
+  ],
+  "documentation": "Markdown README for the project",
+  "installationScript": "#!/bin/bash\\n..."
+}
+
+Rules:
+- "files" must list every file of the project, including configuration files such as package.json or requirements.txt.
+- "path" is relative to the project root and uses forward slashes.
+- "content" is the complete file content as a JSON string (escape newlines and quotes).
+- "documentation" and "installationScript" are optional.`;
+
+export const REFINEMENT_FORMAT_INSTRUCTIONS = `You are updating an existing project. Use the same JSON format, with these differences:
+- "files" lists ONLY files you add or change, each with its complete new content. Do not repeat unchanged files.
+- Add "deletedFiles": ["relative/path"] for files that must be removed.
+- Keep every other file exactly as it is; do not rename files unless asked.`;
+
+const EXTENSION_LANGUAGES: { [key: string]: string } = {
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.vue': 'vue',
+  '.py': 'python',
+  '.html': 'html',
+  '.htm': 'html',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.sh': 'shell',
+  '.txt': 'text',
+  '.env': 'dotenv'
+};
+
+const SPECIAL_FILENAMES: { [key: string]: string } = {
+  'Dockerfile': 'dockerfile',
+  'Makefile': 'makefile',
+  '.gitignore': 'text',
+  '.dockerignore': 'text'
+};
+
+export const getLanguageFromFilename = (filename: string): string => {
+  const basename = filename.split('/').pop() || filename;
+  if (SPECIAL_FILENAMES[basename]) {
+    return SPECIAL_FILENAMES[basename];
+  }
+
+  const dotIndex = basename.lastIndexOf('.');
+  const extension = dotIndex >= 0 ? basename.slice(dotIndex).toLowerCase() : '';
+  return EXTENSION_LANGUAGES[extension] || 'text';
+};
+
+const normalizeFilename = (filename: string): string => {
+  return filename.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+};
+
+// Something that looks like a relative file path: has an extension or is a
+// well-known extensionless file, and contains no whitespace.
+const looksLikePath = (candidate: string): boolean => {
+  if (!candidate || /\s/.test(candidate)) return false;
+  const basename = candidate.split('/').pop() || '';
+  return /\.[A-Za-z0-9]+$/.test(basename) || basename in SPECIAL_FILENAMES;
+};
+
+const buildFiles = (entries: { filename: string; content: string; language?: string }[]): GeneratedFile[] => {
+  const files = new Map<string, GeneratedFile>();
+
+  for (const entry of entries) {
+    const filename = normalizeFilename(entry.filename);
+    if (!filename) {
+      throw new GenerationOutputError('Generated file is missing a path');
+    }
+
+    // Later entries win, matching how a model "corrects" a file it already emitted
+    files.set(filename, {
+      filename,
+      content: entry.content,
+      language: entry.language || getLanguageFromFilename(filename)
+    });
+  }
+
+  return Array.from(files.values());
+};
+
+const extractJsonCandidate = (content: string): string | null => {
+  const fenced = content.match(/^\s*```(?:json)?[^\n]*\n([\s\S]*?)\n```\s*$/);
+  const body = fenced ? fenced[1] : content;
+
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  return body.slice(start, end + 1);
+};
+
+const parseManifest = (content: string): ParsedGenerationOutput | null => {
+  const candidate = extractJsonCandidate(content);
+  if (!candidate) return null;
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(candidate);
+  } catch (error) {
+    return null;
+  }
+
+  if (!manifest || typeof manifest !== 'object' || !('files' in manifest)) {
+    return null;
+  }
+
+  if (!Array.isArray(manifest.files)) {
+    throw new GenerationOutputError('Generated manifest "files" must be an array');
+  }
+
+  const entries = manifest.files.map((file: any, index: number) => {
+    const filename = file?.path ?? file?.filename;
+    if (typeof filename !== 'string' || !filename.trim()) {
+      throw new GenerationOutputError(`Generated manifest file #${index + 1} is missing a path`);
+    }
+    if (typeof file.content !== 'string') {
+      throw new GenerationOutputError(`Generated manifest file "${filename}" has no string content`);
+    }
+    return {
+      filename,
+      content: file.content,
+      language: typeof file.language === 'string' ? file.language : undefined
+    };
+  });
+
+  return {
+    files: buildFiles(entries),
+    documentation: typeof manifest.documentation === 'string' ? manifest.documentation : undefined,
+    installationScript: typeof manifest.installationScript === 'string' ? manifest.installationScript : undefined,
+    deletedFiles: Array.isArray(manifest.deletedFiles)
+      ? manifest.deletedFiles.filter((filename: any) => typeof filename === 'string').map(normalizeFilename)
+      : undefined
+  };
+};
+
+// Pulls a path out of a fence info string such as `tsx src/App.tsx`,
+// `tsx title="src/App.tsx"` or `path=src/App.tsx`.
+const pathFromInfoString = (info: string): string | null => {
+  const attribute = info.match(/(?:path|file|filename|title)\s*[=:]\s*["']?([^"'\s]+)["']?/i);
+  if (attribute) return attribute[1];
+
+  const tokens = info.trim().split(/\s+/);
+  const candidate = tokens.find((token, index) => (index > 0 || tokens.length === 1) && looksLikePath(token));
+  return candidate || null;
+};
+
+// Matches lines placed right before a fence, e.g. `### src/App.tsx`,
+// `**File: src/App.tsx**` or `` `src/App.tsx`: ``.
+const pathFromHeading = (line: string): string | null => {
+  const cleaned = line
+    .replace(/^[#>\-*\s]+/, '')
+    .replace(/[*`_:]+/g, ' ')
+    .replace(/^\s*(?:file(?:name)?|path)\s+/i, '')
+    .trim();
+  return looksLikePath(cleaned) ? cleaned : null;
+};
+
+// Matches a first line inside the fence such as `// src/App.tsx` or
+// `# File: app.py`, which is then dropped from the content.
+const pathFromFirstLine = (line: string): string | null => {
+  const match = line.match(/^\s*(?:\/\/|#|<!--|\/\*)\s*(?:file(?:name)?|path)?\s*:?\s*([^\s*]+?)\s*(?:-->|\*\/)?\s*$/i);
+  return match && looksLikePath(match[1]) ? match[1] : null;
+};
+
+const parseFencedBlocks = (content: string): ParsedGenerationOutput | null => {
+  const lines = content.split('\n');
+  const entries: { filename: string; content: string; language?: string }[] = [];
+  let sawFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(/^\s*```([^`]*)$/);
+    if (!open) continue;
+
+    sawFence = true;
+    const info = open[1].trim();
+    const closeIndex = lines.findIndex((line, index) => index > i && /^\s*```\s*$/.test(line));
+    if (closeIndex === -1) {
+      throw new GenerationOutputError('Generated output contains an unterminated code block');
+    }
+
+    let body = lines.slice(i + 1, closeIndex);
+    let filename = pathFromInfoString(info);
+
+    if (!filename) {
+      const previous = lines.slice(0, i).reverse().find(line => line.trim() !== '');
+      filename = previous ? pathFromHeading(previous) : null;
+    }
+
+    if (!filename && body.length > 0) {
+      filename = pathFromFirstLine(body[0]);
+      if (filename) body = body.slice(1);
+    }
+
+    if (filename) {
+      entries.push({ filename, content: body.join('\n') });
+    }
+
+    i = closeIndex;
+  }
+
+  if (!sawFence) return null;
+  if (entries.length === 0) {
+    throw new GenerationOutputError('Generated code blocks do not name their file paths');
+  }
+
+  return { files: buildFiles(entries) };
+};
+
+// Parses a model response into files. The JSON manifest described in
+// OUTPUT_FORMAT_INSTRUCTIONS is preferred; fenced code blocks that carry their
+// path are accepted as a fallback. Anything else is rejected.
+export const parseGenerationOutput = (content: string, options: ParseOptions = {}): ParsedGenerationOutput => {
+  if (!content || !content.trim()) {
+    throw new GenerationOutputError('Generated output is empty');
+  }
+
+  const parsed = parseManifest(content) || parseFencedBlocks(content);
+  if (!parsed) {
+    throw new GenerationOutputError('Generated output is neither a file manifest nor path-annotated code blocks');
+  }
+
+  if (parsed.files.length === 0 && !(options.allowEmpty && parsed.deletedFiles?.length)) {
+    throw new GenerationOutputError('Generated output did not contain any files');
+  }
+
+  return parsed;
+};
+
+export interface PartialFile {
+  filename: string;
+  content: string;
+  complete: boolean;
+}
+
+// Decodes the body of a JSON string literal that may still be cut off
+// mid-stream. Returns the decoded text and whether the closing quote was
+// seen, or null when the text is not valid JSON, e.g. it holds raw control
+// characters or a broken escape.
+const decodePartialJsonString = (raw: string): { value: string; complete: boolean } | null => {
+  let end = 0;
+  while (end < raw.length) {
+    if (raw[end] === '\\') {
+      end += 2;
+      continue;
+    }
+    if (raw[end] === '"') {
+      try {
+        return { value: JSON.parse(`"${raw.slice(0, end)}"`), complete: true };
+      } catch (error) {
+        return null;
+      }
+    }
+    end++;
+  }
+
+  // Drop a trailing incomplete escape sequence before decoding
+  const trimmed = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return { value: JSON.parse(`"${trimmed}"`), complete: false };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Best-effort view of the files in a manifest that is still being streamed,
+// used for live progress only. The final result always goes through
+// parseGenerationOutput. Entries whose path or content can not be decoded
+// are skipped rather than thrown.
+export const extractPartialFiles = (buffer: string): PartialFile[] => {
+  const files: PartialFile[] = [];
+  const pathPattern = /"(?:path|filename)"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+  const matches = Array.from(buffer.matchAll(pathPattern));
+
+  matches.forEach((match, index) => {
+    const segmentEnd = index + 1 < matches.length ? matches[index + 1].index! : buffer.length;
+    const segment = buffer.slice(match.index! + match[0].length, segmentEnd);
+    const contentStart = segment.match(/"content"\s*:\s*"/);
+    if (!contentStart) return;
+
+    const decoded = decodePartialJsonString(segment.slice(contentStart.index! + contentStart[0].length));
+    if (!decoded) return;
+
+    try {
+      files.push({
+        filename: normalizeFilename(JSON.parse(`"${match[1]}"`)),
+        content: decoded.value,
+        complete: decoded.complete
+      });
+    } catch (error) {
+      // The final parse reports broken paths
+    }
+  });
+
+  return files;
+};
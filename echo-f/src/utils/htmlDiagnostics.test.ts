@@ -0,0 +1,106 @@
+import { checkHtmlDocument } from './htmlDiagnostics';
+
+const page = (body: string, head: string = '<title>App</title>') => [
+  '<!DOCTYPE html>',
+  '<html lang="en">',
+  `<head>${head}</head>`,
+  '<body>',
+  body,
+  '</body>',
+  '</html>'
+].join('\n');
+
+const messages = (content: string, projectFiles: string[] = []) => {
+  return checkHtmlDocument('index.html', content, new Set(['index.html', ...projectFiles])).map(issue => issue.message);
+};
+
+describe('checkHtmlDocument', () => {
+  it('accepts a well-formed, accessible page', () => {
+    const content = page(
+      [
+        '<h1>Todo</h1>',
+        '<img src="img/logo.png" alt="Logo">',
+        '<label for="task">Task</label><input id="task" type="text">',
+        '<label>Done <input type="checkbox"></label>',
+        '<ul><li>One<li>Two</ul>',
+        '<a href="https://example.com">Docs</a>'
+      ].join('\n'),
+      '<title>App</title><link rel="stylesheet" href="css/style.css"><script src="/js/app.js"></script>'
+    );
+
+    expect(messages(content, ['css/style.css', 'js/app.js', 'img/logo.png'])).toEqual([]);
+  });
+
+  it('reports elements that are never closed and stray closing tags', () => {
+    const issues = checkHtmlDocument('index.html', page('<h1>Todo</h1>\n<div><span>Open</div>\n</section>'), new Set(['index.html']));
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ category: 'markup', severity: 'error', message: '<span> is never closed', line: 6 }),
+      expect.objectContaining({ category: 'markup', message: 'Unexpected closing tag </section>', line: 7, column: 1 })
+    ]));
+  });
+
+  it('ignores closing tags inside scripts and comments', () => {
+    const content = page('<h1>Todo</h1>\n<script>const html = "</div>";</script>\n<!-- </section> -->');
+
+    expect(messages(content)).toEqual([]);
+  });
+
+  it('reports parser errors as malformed HTML', () => {
+    expect(messages(page('<h1>Todo</h1>\n<p class="a" class="b">Hi</p>'))).toEqual(['Malformed HTML: duplicate-attribute']);
+  });
+
+  it('warns about a missing doctype without failing the page', () => {
+    const issues = checkHtmlDocument('index.html', '<html lang="en"><head><title>App</title></head><body><h1>Hi</h1></body></html>', new Set());
+
+    expect(issues).toEqual([
+      expect.objectContaining({ category: 'markup', severity: 'warning', message: 'Missing <!DOCTYPE html>' })
+    ]);
+  });
+
+  it('reports local references to files that were not generated', () => {
+    const issues = checkHtmlDocument(
+      'pages/about.html',
+      page('<h1>About</h1>\n<img src="../img/team.png" alt="Team">\n<img src="data:image/png;base64,AAAA" alt="">', '<title>About</title><link rel="stylesheet" href="/css/main.css?v=2">'),
+      new Set(['pages/about.html', 'css/main.css'])
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        category: 'reference',
+        severity: 'error',
+        message: '<img src="../img/team.png"> points to img/team.png, which is not a generated file',
+        line: 6
+      })
+    ]);
+  });
+
+  it('warns about accessibility problems', () => {
+    const content = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head></head>',
+      '<body>',
+      '<h2>Start</h2>',
+      '<h4>Skipped</h4>',
+      '<img src="a.png">',
+      '<input type="text">',
+      '<select aria-label="Size"><option>S</option></select>',
+      '<input type="submit">',
+      '</body>',
+      '</html>'
+    ].join('\n');
+
+    const issues = checkHtmlDocument('index.html', content, new Set(['index.html', 'a.png']));
+
+    expect(issues.every(issue => issue.category === 'accessibility' && issue.severity === 'warning')).toBe(true);
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Document has no <title>',
+      '<html> is missing a lang attribute',
+      'First heading is <h2>; start with <h1>',
+      'Heading level skips from <h2> to <h4>',
+      '<img> is missing alt text',
+      '<input> has no label'
+    ]);
+  });
+});
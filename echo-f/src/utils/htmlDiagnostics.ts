@@ -0,0 +1,216 @@
+import path from 'path';
+import { DefaultTreeAdapterMap, ParserError, parse } from 'parse5';
+
+type Document = DefaultTreeAdapterMap['document'];
+type Element = DefaultTreeAdapterMap['element'];
+type ParentNode = DefaultTreeAdapterMap['parentNode'];
+
+export type HtmlIssueCategory = 'markup' | 'reference' | 'accessibility';
+
+export interface HtmlIssue {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  category: HtmlIssueCategory;
+  // Markup and reference problems break the page; accessibility ones do not
+  severity: 'error' | 'warning';
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+// Elements whose end tag may be left out
+const OPTIONAL_END_TAGS = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th',
+  'thead', 'tbody', 'tfoot', 'colgroup', 'caption', 'rb', 'rt', 'rp'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Attributes that point at files of the project, by element
+const REFERENCE_ATTRIBUTES: Record<string, string[]> = {
+  link: ['href'],
+  script: ['src'],
+  img: ['src'],
+  source: ['src'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  iframe: ['src']
+};
+
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const FORM_CONTROLS = new Set(['input', 'select', 'textarea']);
+const END_TAG = /<\/([a-zA-Z][\w-]*)\s*>/g;
+
+const attribute = (element: Element, name: string): string | undefined => {
+  return element.attrs.find(attr => attr.name === name)?.value;
+};
+
+const childrenOf = (node: ParentNode): Element[] => {
+  const content = node.nodeName === 'template' ? (node as DefaultTreeAdapterMap['template']).content : node;
+  return content.childNodes.filter((child): child is Element => 'tagName' in child);
+};
+
+const walk = (node: ParentNode, visit: (element: Element, ancestors: Element[]) => void, ancestors: Element[] = []): void => {
+  for (const element of childrenOf(node)) {
+    visit(element, ancestors);
+    walk(element, visit, [...ancestors, element]);
+  }
+};
+
+// Local references: no scheme, protocol-relative URL, data URI or anchor.
+// Root-relative paths resolve against the project root.
+const resolveReference = (htmlFile: string, reference: string): string | null => {
+  const target = reference.trim().split(/[?#]/)[0];
+  if (!target || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(target) || target.includes('{{')) return null;
+
+  const resolved = target.startsWith('/')
+    ? target.slice(1)
+    : path.posix.join(path.posix.dirname(htmlFile), target);
+  try {
+    return path.posix.normalize(decodeURIComponent(resolved));
+  } catch {
+    return path.posix.normalize(resolved);
+  }
+};
+
+class HtmlAudit {
+  issues: HtmlIssue[] = [];
+
+  constructor(private file: string) {}
+
+  add(category: HtmlIssueCategory, line: number, column: number, message: string,
+    severity: HtmlIssue['severity'] = category === 'accessibility' ? 'warning' : 'error'): void {
+    this.issues.push({ file: this.file, line, column, message, category, severity });
+  }
+
+  addAt(category: HtmlIssueCategory, element: Element, message: string): void {
+    const location = element.sourceCodeLocation;
+    this.add(category, location?.startLine || 1, location?.startCol || 1, message);
+  }
+}
+
+const checkMarkup = (audit: HtmlAudit, document: Document, content: string): void => {
+  const matchedEndTags = new Set<number>();
+  const rawTextRanges: [number, number][] = [];
+
+  walk(document, element => {
+    const location = element.sourceCodeLocation;
+    if (!location) return;
+
+    if (location.endTag) {
+      matchedEndTags.add(location.endTag.startOffset);
+    } else if (!VOID_ELEMENTS.has(element.tagName) && !OPTIONAL_END_TAGS.has(element.tagName) && location.startTag) {
+      audit.addAt('markup', element, `<${element.tagName}> is never closed`);
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(element.tagName) && location.startTag) {
+      rawTextRanges.push([location.startTag.endOffset, location.endTag?.startOffset ?? content.length]);
+    }
+  });
+
+  // End tags that the parser had to drop do not belong to any element
+  for (const match of content.matchAll(END_TAG)) {
+    const offset = match.index!;
+    if (matchedEndTags.has(offset) || rawTextRanges.some(([start, end]) => offset >= start && offset < end)) continue;
+    if (content.lastIndexOf('<!--', offset) > content.lastIndexOf('-->', offset)) continue;
+
+    const before = content.slice(0, offset).split('\n');
+    audit.add('markup', before.length, before[before.length - 1].length + 1, `Unexpected closing tag </${match[1].toLowerCase()}>`);
+  }
+};
+
+const checkReferences = (audit: HtmlAudit, document: Document, file: string, projectFiles: Set<string>): void => {
+  walk(document, element => {
+    const names = REFERENCE_ATTRIBUTES[element.tagName] || [];
+    for (const name of names) {
+      const value = attribute(element, name);
+      if (value === undefined) continue;
+
+      const resolved = resolveReference(file, value);
+      if (resolved && !projectFiles.has(resolved)) {
+        const location = element.sourceCodeLocation?.attrs?.[name];
+        audit.add('reference', location?.startLine || 1, location?.startCol || 1, `<${element.tagName} ${name}="${value}"> points to ${resolved}, which is not a generated file`);
+      }
+    }
+  });
+};
+
+const checkAccessibility = (audit: HtmlAudit, document: Document): void => {
+  const labelTargets = new Set<string>();
+  walk(document, element => {
+    const target = element.tagName === 'label' ? attribute(element, 'for') : undefined;
+    if (target) labelTargets.add(target);
+  });
+
+  let previousHeading = 0;
+
+  walk(document, (element, ancestors) => {
+    const { tagName } = element;
+
+    if (tagName === 'html' && element.sourceCodeLocation && !attribute(element, 'lang')?.trim()) {
+      audit.addAt('accessibility', element, '<html> is missing a lang attribute');
+    }
+
+    if ((tagName === 'img' || (tagName === 'input' && attribute(element, 'type') === 'image'))
+      && attribute(element, 'alt') === undefined
+      && !['presentation', 'none'].includes(attribute(element, 'role') || '')) {
+      audit.addAt('accessibility', element, `<${tagName}> is missing alt text`);
+    }
+
+    if (FORM_CONTROLS.has(tagName) && !UNLABELED_INPUT_TYPES.has((attribute(element, 'type') || '').toLowerCase())) {
+      const id = attribute(element, 'id');
+      const labelled = ['aria-label', 'aria-labelledby', 'title'].some(name => attribute(element, name)?.trim())
+        || (id !== undefined && labelTargets.has(id))
+        || ancestors.some(ancestor => ancestor.tagName === 'label');
+      if (!labelled) {
+        audit.addAt('accessibility', element, `<${tagName}> has no label`);
+      }
+    }
+
+    const heading = /^h([1-6])$/.exec(tagName);
+    if (heading) {
+      const level = parseInt(heading[1]);
+      if (previousHeading === 0 && level !== 1) {
+        audit.addAt('accessibility', element, `First heading is <${tagName}>; start with <h1>`);
+      } else if (previousHeading > 0 && level > previousHeading + 1) {
+        audit.addAt('accessibility', element, `Heading level skips from <h${previousHeading}> to <${tagName}>`);
+      }
+      previousHeading = level;
+    }
+  });
+};
+
+// Parses an HTML page and reports malformed markup, references to local
+// files that were not generated, and basic accessibility problems.
+// projectFiles holds every generated file path, relative to the project root.
+export const checkHtmlDocument = (file: string, content: string, projectFiles: Set<string>): HtmlIssue[] => {
+  const audit = new HtmlAudit(file);
+  const document = parse(content, {
+    sourceCodeLocationInfo: true,
+    onParseError: (error: ParserError) => {
+      // Reported below, as a warning
+      if (error.code === 'missing-doctype') return;
+      audit.add('markup', error.startLine, error.startCol, `Malformed HTML: ${error.code}`);
+    }
+  });
+
+  if (!document.childNodes.some(node => node.nodeName === '#documentType')) {
+    // Without a doctype the page renders in quirks mode, but it still renders
+    audit.add('markup', 1, 1, 'Missing <!DOCTYPE html>', 'warning');
+  }
+
+  const html = childrenOf(document).find(element => element.tagName === 'html');
+  const head = html && childrenOf(html).find(element => element.tagName === 'head');
+  if (!head || !childrenOf(head).some(element => element.tagName === 'title')) {
+    audit.add('accessibility', 1, 1, 'Document has no <title>');
+  }
+
+  checkMarkup(audit, document, content);
+  checkReferences(audit, document, file, projectFiles);
+  checkAccessibility(audit, document);
+
+  return audit.issues.sort((a, b) => a.line - b.line || a.column - b.column);
+};
@@ -0,0 +1,50 @@
+import securityScanner from '../services/securityScanner';
+import { toSarif } from './sarif';
+
+describe('toSarif', () => {
+  const findings = securityScanner.scan([
+    { filename: 'src/server.js', content: 'app.use(cors());\neval(input);', language: 'javascript' }
+  ]);
+  const log = toSarif(findings, securityScanner.getRules());
+  const [run] = log.runs;
+
+  it('is a SARIF 2.1.0 log with one run', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(run.tool.driver.name).toBe('echo-f-security');
+  });
+
+  it('lists only the rules that produced a finding', () => {
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['js/eval', 'js/open-cors']);
+    expect(run.tool.driver.rules[0]).toEqual(expect.objectContaining({
+      defaultConfiguration: { level: 'error' },
+      properties: { tags: ['security', 'javascript'] }
+    }));
+  });
+
+  it('points every result at its rule and location', () => {
+    expect(run.results).toEqual([
+      expect.objectContaining({
+        ruleId: 'js/open-cors',
+        ruleIndex: 1,
+        level: 'warning',
+        message: { text: expect.stringMatching(/^CORS allows requests from any origin\. List the allowed origins/) },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/server.js' }, region: { startLine: 1, startColumn: 9 } } }]
+      }),
+      expect.objectContaining({
+        ruleId: 'js/eval',
+        ruleIndex: 0,
+        level: 'error',
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/server.js' }, region: { startLine: 2, startColumn: 1 } } }]
+      })
+    ]);
+  });
+
+  it('has an empty run when nothing was found', () => {
+    const empty = toSarif([], securityScanner.getRules());
+
+    expect(empty.runs[0].tool.driver.rules).toEqual([]);
+    expect(empty.runs[0].results).toEqual([]);
+  });
+});
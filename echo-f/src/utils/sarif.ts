@@ -0,0 +1,45 @@
+import { SecurityFinding, SecurityRule } from '../services/securityScanner';
+
+export const SARIF_CONTENT_TYPE = 'application/sarif+json';
+
+const TOOL_NAME = 'echo-f-security';
+
+// Converts scanner findings to a SARIF 2.1.0 log with a single run. Only
+// rules that produced a finding are listed in the driver; artifact URIs are
+// the generated file paths, relative to the project root.
+export const toSarif = (findings: SecurityFinding[], rules: SecurityRule[]) => {
+  const usedRules = rules.filter(rule => findings.some(finding => finding.ruleId === rule.id));
+  const ruleIndex = new Map(usedRules.map((rule, index) => [rule.id, index]));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          rules: usedRules.map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            shortDescription: { text: rule.description },
+            help: { text: rule.fix },
+            defaultConfiguration: { level: rule.severity },
+            properties: { tags: ['security', rule.language] }
+          }))
+        }
+      },
+      results: findings.map(finding => ({
+        ruleId: finding.ruleId,
+        ruleIndex: ruleIndex.get(finding.ruleId),
+        level: finding.severity,
+        message: { text: `${finding.message}. ${finding.fix}` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file },
+            region: { startLine: finding.line, startColumn: finding.column }
+          }
+        }]
+      }))
+    }]
+  };
+};
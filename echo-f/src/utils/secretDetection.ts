@@ -0,0 +1,182 @@
+import { GeneratedFile } from './generationOutput';
+
+export type SecretKind =
+  | 'private-key'
+  | 'jwt'
+  | 'aws-access-key'
+  | 'github-token'
+  | 'slack-token'
+  | 'stripe-key'
+  | 'openai-key'
+  | 'google-api-key'
+  | 'secret-assignment'
+  | 'high-entropy-string';
+
+export interface SecretMatch {
+  kind: SecretKind;
+  file: string;
+  line: number;
+  column: number;
+  // Character offsets of the secret within the file content
+  start: number;
+  end: number;
+}
+
+export interface Redaction {
+  filename: string;
+  line: number;
+  column: number;
+  kind: SecretKind;
+  // False for high-entropy strings, which are flagged but left in the file
+  redacted: boolean;
+}
+
+const TOKEN_PATTERNS: { kind: SecretKind; pattern: RegExp }[] = [
+  { kind: 'private-key', pattern: /-----BEGIN ((RSA|EC|DSA|OPENSSH|ENCRYPTED|PGP) )?PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END ((RSA|EC|DSA|OPENSSH|ENCRYPTED|PGP) )?PRIVATE KEY( BLOCK)?-----/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: 'aws-access-key', pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { kind: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'stripe-key', pattern: /\b(sk|rk)_(live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'openai-key', pattern: /\bsk-(proj-)?[A-Za-z0-9_-]{32,}/g },
+  { kind: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g }
+];
+
+// Quoted values assigned to a name (`apiKey: '...'`, `API_KEY = "..."`), and
+// unquoted values in KEY=value lines of .env files
+const NAMED_STRING = /(["']?)([A-Za-z_][A-Za-z0-9_-]*)\1\s*[:=]\s*(["'`])([^"'`\s\\]{8,200})\3/g;
+const ENV_ASSIGNMENT = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*([^\s"'#]{8,200})\s*$/gm;
+// Any quoted value, checked for entropy only
+const QUOTED_STRING = /(["'`])([^"'`\s\\]{20,200})\1/g;
+
+// Matches names such as password, dbPassword, JWT_SECRET, apiKey and secretKey
+const SECRET_NAME = /(password|passwd|secret|api_?key|access_?token|auth_?token|private_?key)(_?key)?$/i;
+
+const BASE64_LIKE = /^[A-Za-z0-9+/=_-]+$/;
+const HEX = /^[a-f0-9]+$/i;
+const PLACEHOLDER = /(your|example|sample|placeholder|changeme|dummy|redacted|xxxx|\*\*\*\*|<|>|\$\{)/i;
+// Subresource integrity values and strings assigned to hash-like names
+const SRI_HASH = /^sha(256|384|512)-/;
+const HASH_CONTEXT = /(integrity|checksum|digest|hash|sha(1|256|384|512)?|nonce|etag)["']?\s*[:=]\s*\{?\s*["'`]?$/i;
+// Names built from short separated parts, such as Roboto-Regular_v2-latin-400
+const COMPOUND_NAME = /^[A-Za-z0-9]{1,12}([-_.][A-Za-z0-9]{1,12}){2,}$/;
+
+// Lock files and assets carry integrity hashes and encoded data, not secrets
+const SKIPPED_FILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|poetry\.lock)$|\.(min\.js|map|svg|png|jpe?g|gif|ico|woff2?)$/i;
+
+export const redactionMarker = (kind: SecretKind): string => `[REDACTED:${kind}]`;
+
+// Shannon entropy in bits per character
+export const shannonEntropy = (value: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+};
+
+// Random-looking tokens: mixed letters and digits with high entropy. Hex
+// strings use a lower threshold because their alphabet is smaller.
+const isHighEntropy = (value: string): boolean => {
+  if (PLACEHOLDER.test(value) || !/[0-9]/.test(value) || !/[a-zA-Z]/.test(value)) return false;
+  if (SRI_HASH.test(value) || COMPOUND_NAME.test(value)) return false;
+  if (HEX.test(value)) return value.length >= 32 && shannonEntropy(value) >= 3.0;
+  return BASE64_LIKE.test(value) && shannonEntropy(value) >= 4.0;
+};
+
+const positionAt = (content: string, offset: number): { line: number; column: number } => {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+const isSecretName = (name: string): boolean => SECRET_NAME.test(name.replace(/-/g, '_'));
+
+// Text between the start of the line and offset
+const linePrefix = (content: string, offset: number): string => {
+  return content.slice(content.lastIndexOf('\n', offset - 1) + 1, offset);
+};
+
+// Finds known token formats, values assigned to secret-named keys and
+// high-entropy string values. Overlapping matches are reported once, known
+// formats taking precedence.
+export const detectSecrets = (file: GeneratedFile): SecretMatch[] => {
+  if (SKIPPED_FILES.test(file.filename)) return [];
+
+  const { content } = file;
+  const matches: SecretMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start);
+
+  const add = (kind: SecretKind, start: number, end: number): void => {
+    if (overlaps(start, end)) return;
+    matches.push({ kind, file: file.filename, ...positionAt(content, start), start, end });
+  };
+
+  for (const { kind, pattern } of TOKEN_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      add(kind, match.index!, match.index! + match[0].length);
+    }
+  }
+
+  for (const pattern of [NAMED_STRING, ENV_ASSIGNMENT]) {
+    for (const match of content.matchAll(pattern)) {
+      const name = pattern === NAMED_STRING ? match[2] : match[1];
+      const value = match[match.length - 1];
+      if (!isSecretName(name) || PLACEHOLDER.test(value)) continue;
+
+      const start = match.index! + match[0].lastIndexOf(value);
+      add('secret-assignment', start, start + value.length);
+    }
+  }
+
+  for (const pattern of [QUOTED_STRING, ENV_ASSIGNMENT]) {
+    for (const match of content.matchAll(pattern)) {
+      const value = match[match.length - 1];
+      const start = match.index! + match[0].lastIndexOf(value);
+      if (!isHighEntropy(value) || HASH_CONTEXT.test(linePrefix(content, start))) continue;
+
+      add('high-entropy-string', start, start + value.length);
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+// High-entropy strings are only a guess: rewriting them breaks hashes,
+// asset names and test fixtures, so they are listed for review instead
+const isRedactable = (match: SecretMatch): boolean => match.kind !== 'high-entropy-string';
+
+// Replaces known token formats and values of secret-named keys with a
+// [REDACTED:<kind>] marker, and lists every detected secret, high-entropy
+// strings with redacted set to false. Files without redactable secrets are
+// returned unchanged, and markers are never detected again.
+export const redactSecrets = <T extends GeneratedFile>(files: T[]): { files: T[]; redactions: Redaction[] } => {
+  const redactions: Redaction[] = [];
+
+  const redacted = files.map(file => {
+    const matches = detectSecrets(file);
+    redactions.push(...matches.map(match => ({
+      filename: file.filename,
+      line: match.line,
+      column: match.column,
+      kind: match.kind,
+      redacted: isRedactable(match)
+    })));
+
+    const redactable = matches.filter(isRedactable);
+    if (redactable.length === 0) return file;
+
+    let content = file.content;
+    // Back to front so earlier offsets stay valid
+    for (const match of [...redactable].reverse()) {
+      content = content.slice(0, match.start) + redactionMarker(match.kind) + content.slice(match.end);
+    }
+
+    return { ...file, content };
+  });
+
+  return { files: redacted, redactions };
+};
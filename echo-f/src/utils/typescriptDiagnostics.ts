@@ -0,0 +1,221 @@
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fsp } from 'fs';
+import ts from 'typescript';
+import { runSandboxed } from './workspace';
+
+export interface SourceDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  code: number;
+}
+
+// Generated projects are checked without their node_modules, so anything
+// caused by a package or @types declaration not being installed is ignored.
+const UNRESOLVED_DEPENDENCY_CODES = new Set([
+  2307, // Cannot find module
+  2688, // Cannot find type definition file
+  2792, // Cannot find module, did you mean to set moduleResolution
+  2580, // Cannot find name 'process', install @types/node
+  2582, // Cannot find name 'describe', install test runner types
+  2591, // Cannot find name 'require', install @types/node
+  2593, // Cannot find name 'describe', install test runner types and add to types
+  2875, // JSX runtime module (react/jsx-runtime) not found
+  6053, // File not found (e.g. an `extends` pointing into node_modules)
+  7016, // Could not find a declaration file for module
+  7026 // JSX.IntrinsicElements missing because React types are absent
+]);
+
+// Compiler options taken over from a generated tsconfig.json. Anything that
+// can point at files (extends, typeRoots, outDir, plugins, ...) is left out.
+const TYPECHECK_OPTIONS = new Set([
+  'target', 'lib', 'jsx', 'jsxFactory', 'jsxFragmentFactory', 'jsxImportSource',
+  'module', 'moduleResolution', 'moduleDetection', 'allowJs', 'checkJs',
+  'strict', 'noImplicitAny', 'strictNullChecks', 'strictFunctionTypes', 'strictBindCallApply',
+  'strictPropertyInitialization', 'noImplicitThis', 'useUnknownInCatchVariables', 'alwaysStrict',
+  'noUnusedLocals', 'noUnusedParameters', 'noImplicitReturns', 'noFallthroughCasesInSwitch',
+  'noUncheckedIndexedAccess', 'noImplicitOverride', 'noPropertyAccessFromIndexSignature',
+  'exactOptionalPropertyTypes', 'esModuleInterop', 'allowSyntheticDefaultImports',
+  'resolveJsonModule', 'isolatedModules', 'verbatimModuleSyntax', 'allowImportingTsExtensions',
+  'experimentalDecorators', 'emitDecoratorMetadata', 'useDefineForClassFields',
+  'forceConsistentCasingInFileNames', 'baseUrl', 'paths'
+]);
+
+const TYPECHECK_TIMEOUT_MS = parseInt(process.env.TYPECHECK_TIMEOUT_MS || '30000');
+// Address space, not heap: Node alone reserves close to 1 GB
+const TYPECHECK_MEMORY_MB = parseInt(process.env.TYPECHECK_MEMORY_MB || '2048');
+const TSC_PATH = require.resolve('typescript/bin/tsc');
+
+// `file(line,col): error TS1234: message`, or `error TS1234: message` for
+// errors without a location; continuation lines are indented
+const TSC_DIAGNOSTIC = /^(?:(.+)\((\d+),(\d+)\): )?error TS(\d+): (.*)$/;
+
+const SYNTAX_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  jsx: ts.JsxEmit.Preserve,
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  experimentalDecorators: true
+};
+
+const toPosixRelative = (from: string, to: string): string => {
+  return path.relative(from, to).split(path.sep).join('/');
+};
+
+const toSourceDiagnostic = (diagnostic: ts.Diagnostic, file: string): SourceDiagnostic => {
+  let line = 1;
+  let column = 1;
+
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    line = position.line + 1;
+    column = position.character + 1;
+  }
+
+  return {
+    file,
+    line,
+    column,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: diagnostic.code
+  };
+};
+
+// Parses a single JS/JSX/TS/TSX file. The script kind follows the file
+// extension, so JSX is accepted in .js/.jsx/.tsx but not in .ts files.
+export const checkSyntax = (filename: string, content: string): SourceDiagnostic[] => {
+  const output = ts.transpileModule(content, {
+    fileName: filename,
+    reportDiagnostics: true,
+    compilerOptions: SYNTAX_OPTIONS
+  });
+
+  return (output.diagnostics || [])
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => toSourceDiagnostic(diagnostic, filename));
+};
+
+// Relative paths and glob patterns that can not leave the project
+const isInsideProject = (value: unknown): value is string => {
+  return typeof value === 'string' && value !== '' && !path.isAbsolute(value)
+    && !/^[A-Za-z]:/.test(value) && !value.split(/[\\/]/).includes('..');
+};
+
+const insidePaths = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter(isInsideProject) : [];
+};
+
+// Builds the tsconfig the check runs with from the project's own one. Only
+// type-checking options are kept, and every path is resolved against
+// projectDir, so nothing outside the project is read.
+export const buildTypeCheckConfig = (config: any, projectDir: string): object => {
+  const source = config && typeof config.compilerOptions === 'object' ? config.compilerOptions : {};
+  const compilerOptions: { [key: string]: unknown } = {};
+
+  for (const [name, value] of Object.entries(source || {})) {
+    if (TYPECHECK_OPTIONS.has(name)) compilerOptions[name] = value;
+  }
+
+  if ('baseUrl' in compilerOptions) {
+    if (isInsideProject(compilerOptions.baseUrl)) {
+      compilerOptions.baseUrl = path.join(projectDir, compilerOptions.baseUrl as string);
+    } else {
+      delete compilerOptions.baseUrl;
+    }
+  }
+  if ('paths' in compilerOptions) {
+    const paths: { [key: string]: string[] } = {};
+    const entries = compilerOptions.paths && typeof compilerOptions.paths === 'object' ? compilerOptions.paths : {};
+    for (const [alias, targets] of Object.entries(entries)) {
+      const safeTargets = insidePaths(targets).map(target => path.join(compilerOptions.baseUrl as string || projectDir, target));
+      if (safeTargets.length > 0) paths[alias] = safeTargets;
+    }
+    compilerOptions.paths = paths;
+  }
+
+  const include = insidePaths(config?.include);
+  const files = insidePaths(config?.files);
+  const toProject = (entry: string) => path.join(projectDir, entry);
+
+  return {
+    compilerOptions: {
+      ...compilerOptions,
+      rootDir: projectDir,
+      noEmit: true,
+      skipLibCheck: true,
+      // Declared type packages are not installed
+      types: []
+    },
+    ...(files.length > 0 ? { files: files.map(toProject) } : {}),
+    ...(include.length > 0 || files.length === 0 ? { include: (include.length > 0 ? include : ['**/*']).map(toProject) } : {}),
+    exclude: [...insidePaths(config?.exclude), 'node_modules'].map(toProject)
+  };
+};
+
+const parseTscOutput = (output: string, projectDir: string, rootDir: string, configPath: string): SourceDiagnostic[] => {
+  const configFile = toPosixRelative(rootDir, path.join(projectDir, 'tsconfig.json'));
+  const diagnostics: SourceDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(TSC_DIAGNOSTIC);
+    if (match) {
+      const [, file, lineNumber, column, code, message] = match;
+      const absolute = file ? path.resolve(projectDir, file) : configPath;
+      diagnostics.push({
+        file: absolute === configPath ? configFile : toPosixRelative(rootDir, absolute),
+        line: file ? parseInt(lineNumber) : 1,
+        column: file ? parseInt(column) : 1,
+        message,
+        code: parseInt(code)
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+};
+
+// Runs a full type-check of the project rooted at projectDir with a
+// sanitized copy of its tsconfig.json. The compiler runs in a sandboxed
+// child process, so a pathological project can neither block the server nor
+// exhaust its memory; a timeout or crash is thrown. Returns null when the
+// project has no tsconfig.json. File paths in the diagnostics are relative
+// to rootDir.
+export const typeCheckProject = async (projectDir: string, rootDir: string = projectDir): Promise<SourceDiagnostic[] | null> => {
+  const projectConfigPath = path.join(projectDir, 'tsconfig.json');
+  if (!ts.sys.fileExists(projectConfigPath)) return null;
+
+  const config = ts.readConfigFile(projectConfigPath, ts.sys.readFile);
+  if (config.error) {
+    return [toSourceDiagnostic(config.error, toPosixRelative(rootDir, projectConfigPath))];
+  }
+
+  // Kept outside the project so the workspace stays as generated
+  const configPath = path.join(os.tmpdir(), `echo-f-tsconfig-${crypto.randomBytes(6).toString('hex')}.json`);
+  await fsp.writeFile(configPath, JSON.stringify(buildTypeCheckConfig(config.config, projectDir)));
+
+  try {
+    const check = await runSandboxed(process.execPath, [
+      '--max-old-space-size=512', TSC_PATH, '--project', configPath, '--pretty', 'false'
+    ], { cwd: projectDir, timeoutMs: TYPECHECK_TIMEOUT_MS, maxMemoryMb: TYPECHECK_MEMORY_MB });
+
+    if (check.timedOut) {
+      throw new Error(`timed out after ${TYPECHECK_TIMEOUT_MS / 1000}s`);
+    }
+
+    const diagnostics = parseTscOutput(check.stdout, projectDir, rootDir, configPath);
+    if (check.exitCode !== 0 && diagnostics.length === 0) {
+      throw new Error((check.stderr || check.stdout).trim() || `compiler exited with code ${check.exitCode}`);
+    }
+
+    return diagnostics
+      .filter(diagnostic => diagnostic.code !== 18003) // No inputs were found
+      .filter(diagnostic => !UNRESOLVED_DEPENDENCY_CODES.has(diagnostic.code));
+  } finally {
+    await fsp.unlink(configPath).catch(() => undefined);
+  }
+};
@@ -0,0 +1,91 @@
+import { checkVueComponent, extractVueScript } from './vueDiagnostics';
+
+const component = (...lines: string[]) => lines.join('\n');
+
+describe('checkVueComponent', () => {
+  it('accepts a valid component', () => {
+    const content = component(
+      '<template>',
+      '  <button @click="count++">{{ count }}</button>',
+      '</template>',
+      '<script setup lang="ts">',
+      "import { ref } from 'vue';",
+      'const count = ref<number>(0);',
+      '</script>',
+      '<style scoped>',
+      'button { color: red; }',
+      '</style>'
+    );
+
+    expect(checkVueComponent('src/App.vue', content)).toEqual([]);
+  });
+
+  it('reports template errors at their position in the file', () => {
+    const content = component(
+      '<template>',
+      '  <div>',
+      '    <p v-else>Nothing here</p>',
+      '  </div>',
+      '</template>'
+    );
+
+    expect(checkVueComponent('src/App.vue', content)).toEqual([
+      expect.objectContaining({ file: 'src/App.vue', block: 'template', line: 3, column: 5 })
+    ]);
+  });
+
+  it('reports script syntax errors at their position in the file', () => {
+    const content = component(
+      '<template><p>Hi</p></template>',
+      '<script>',
+      'export default {',
+      '  data() { return { a: 1 }',
+      '};',
+      '</script>'
+    );
+
+    const diagnostics = checkVueComponent('src/App.vue', content);
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0]).toEqual(expect.objectContaining({ block: 'script' }));
+    expect(diagnostics[0].line).toBeGreaterThanOrEqual(3);
+  });
+
+  it('reports broken CSS in plain style blocks and skips preprocessors', () => {
+    const broken = component('<template><p>Hi</p></template>', '<style>', 'p { color: red;', '</style>');
+    const scss = component('<template><p>Hi</p></template>', '<style lang="scss">', '$c: red; p { color: $c; ', '</style>');
+
+    expect(checkVueComponent('src/App.vue', broken)).toEqual([expect.objectContaining({ block: 'style' })]);
+    expect(checkVueComponent('src/App.vue', scss)).toEqual([]);
+  });
+
+  it('reports a broken component structure', () => {
+    const diagnostics = checkVueComponent('src/App.vue', '<template><div></template>');
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics.every(diagnostic => diagnostic.block === 'sfc')).toBe(true);
+  });
+
+  it('reports a component without template or script', () => {
+    expect(checkVueComponent('src/App.vue', '<style>p { color: red; }</style>')).toEqual([
+      expect.objectContaining({ block: 'sfc', message: expect.stringContaining('<template> or <script>') })
+    ]);
+  });
+});
+
+describe('extractVueScript', () => {
+  it('joins the script and script setup blocks', () => {
+    const content = component(
+      '<script>',
+      "import axios from 'axios';",
+      '</script>',
+      '<script setup>',
+      "import { ref } from 'vue';",
+      '</script>',
+      '<template><p /></template>'
+    );
+
+    expect(extractVueScript('src/App.vue', content)).toContain("import axios from 'axios';");
+    expect(extractVueScript('src/App.vue', content)).toContain("import { ref } from 'vue';");
+  });
+});
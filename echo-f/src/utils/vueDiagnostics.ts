@@ -0,0 +1,100 @@
+import { SFCBlock, compileStyle, compileTemplate, parse } from '@vue/compiler-sfc';
+import { SourceDiagnostic, checkSyntax } from './typescriptDiagnostics';
+
+export type VueBlock = 'sfc' | 'template' | 'script' | 'style';
+
+export interface VueDiagnostic extends SourceDiagnostic {
+  block: VueBlock;
+}
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+// Preprocessors (sass, less, stylus) are not installed, so only plain CSS
+// blocks are compiled
+const COMPILED_STYLE_LANGS = new Set([undefined, 'css', 'postcss']);
+
+// Block content starts right after the opening tag, so positions reported
+// against the content are shifted by the tag's position in the file.
+const toFilePosition = (block: SFCBlock, position: Position): Position => ({
+  line: block.loc.start.line + position.line - 1,
+  column: position.line === 1 ? block.loc.start.column + position.column - 1 : position.column
+});
+
+const scriptExtension = (lang?: string): string => {
+  if (lang === 'ts' || lang === 'tsx' || lang === 'jsx') return `.${lang}`;
+  return '.js';
+};
+
+const diagnostic = (file: string, block: VueBlock, position: Position, message: string): VueDiagnostic => ({
+  file,
+  line: position.line,
+  column: position.column,
+  message,
+  code: 0,
+  block
+});
+
+// Parses a single-file component and validates its template, script and
+// style blocks separately. Positions are relative to the .vue file.
+export const checkVueComponent = (filename: string, content: string): VueDiagnostic[] => {
+  const { descriptor, errors } = parse(content, { filename });
+
+  // A broken SFC structure makes the block boundaries unreliable
+  if (errors.length > 0) {
+    return errors.map(error => {
+      const start = 'loc' in error && error.loc ? error.loc.start : { line: 1, column: 1 };
+      return diagnostic(filename, 'sfc', start, error.message);
+    });
+  }
+
+  const diagnostics: VueDiagnostic[] = [];
+
+  if (!descriptor.template && !descriptor.script && !descriptor.scriptSetup) {
+    diagnostics.push(diagnostic(filename, 'sfc', { line: 1, column: 1 }, 'Component has no <template> or <script> block'));
+  }
+
+  const { template } = descriptor;
+  if (template && !template.src) {
+    const compiled = compileTemplate({ source: template.content, filename, id: filename });
+    for (const error of compiled.errors) {
+      if (typeof error === 'string') {
+        diagnostics.push(diagnostic(filename, 'template', template.loc.start, error));
+      } else {
+        const start = error.loc ? toFilePosition(template, error.loc.start) : template.loc.start;
+        diagnostics.push(diagnostic(filename, 'template', start, error.message));
+      }
+    }
+  }
+
+  for (const script of [descriptor.script, descriptor.scriptSetup]) {
+    if (!script || script.src) continue;
+
+    for (const error of checkSyntax(`${filename}${scriptExtension(script.lang)}`, script.content)) {
+      diagnostics.push(diagnostic(filename, 'script', toFilePosition(script, error), error.message));
+    }
+  }
+
+  for (const style of descriptor.styles) {
+    if (style.src || !COMPILED_STYLE_LANGS.has(style.lang)) continue;
+
+    const compiled = compileStyle({ source: style.content, filename, id: filename, scoped: Boolean(style.scoped) });
+    for (const error of compiled.errors as any[]) {
+      const position = error.line ? toFilePosition(style, { line: error.line, column: error.column || 1 }) : style.loc.start;
+      diagnostics.push(diagnostic(filename, 'style', position, error.reason || error.message));
+    }
+  }
+
+  return diagnostics;
+};
+
+// Script blocks of a component, for import analysis
+export const extractVueScript = (filename: string, content: string): string => {
+  const { descriptor } = parse(content, { filename });
+  return [descriptor.script, descriptor.scriptSetup]
+    .filter(Boolean)
+    .map(block => block!.content)
+    .join('\n');
+};
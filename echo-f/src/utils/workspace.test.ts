@@ -0,0 +1,46 @@
+import { WorkspaceError, assertSafeFiles, normalizeFilename } from './workspace';
+
+describe('normalizeFilename', () => {
+  it.each([
+    ['src/App.tsx', 'src/App.tsx'],
+    ['./index.html', 'index.html'],
+    ['  package.json ', 'package.json'],
+    ['frontend/.env.example', 'frontend/.env.example'],
+    ['node_modules/@scope/pkg/index.js', 'node_modules/@scope/pkg/index.js']
+  ])('accepts %s', (filename, expected) => {
+    expect(normalizeFilename(filename)).toBe(expected);
+  });
+
+  it.each([
+    ['an empty path', ''],
+    ['an absolute path', '/etc/passwd'],
+    ['a drive letter', 'C:/Windows/win.ini'],
+    ['backslashes', 'src\\index.js'],
+    ['parent segments', 'src/../../server.js'],
+    ['empty segments', 'src//index.js'],
+    ['an option-like segment', 'src/-rf'],
+    ['shell characters', 'src/$(id).js'],
+    ['an overlong path', `${'a'.repeat(256)}.js`]
+  ])('rejects %s', (_, filename) => {
+    expect(() => normalizeFilename(filename)).toThrow(WorkspaceError);
+  });
+});
+
+describe('assertSafeFiles', () => {
+  const limits = { maxFiles: 2, maxFileBytes: 10, maxTotalBytes: 15 };
+  const file = (filename: string, content = '') => ({ filename, content, language: 'text' });
+
+  it('returns the files with normalized paths', () => {
+    expect(assertSafeFiles([file('./a.js', 'x')], limits)).toEqual([file('a.js', 'x')]);
+  });
+
+  it('rejects paths that differ only in case', () => {
+    expect(() => assertSafeFiles([file('App.js'), file('app.js')], limits)).toThrow('Duplicate file path');
+  });
+
+  it('enforces the file, per-file and total size limits', () => {
+    expect(() => assertSafeFiles([file('a'), file('b'), file('c')], limits)).toThrow(WorkspaceError);
+    expect(() => assertSafeFiles([file('a', 'x'.repeat(11))], limits)).toThrow('per-file limit');
+    expect(() => assertSafeFiles([file('a', 'x'.repeat(8)), file('b', 'x'.repeat(8))], limits)).toThrow('the limit is 15');
+  });
+});
@@ -0,0 +1,222 @@
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { GeneratedFile } from './generationOutput';
+
+export class WorkspaceError extends Error {
+  statusCode = 400;
+  isOperational = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceError';
+  }
+}
+
+export interface WorkspaceLimits {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface SandboxOptions {
+  cwd: string;
+  timeoutMs?: number;
+  maxMemoryMb?: number;
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export const WORKSPACE_LIMITS: WorkspaceLimits = {
+  maxFiles: parseInt(process.env.WORKSPACE_MAX_FILES || '200'),
+  maxFileBytes: parseInt(process.env.WORKSPACE_MAX_FILE_KB || '512') * 1024,
+  maxTotalBytes: parseInt(process.env.WORKSPACE_MAX_TOTAL_KB || '5120') * 1024
+};
+
+const SANDBOX_TIMEOUT_MS = parseInt(process.env.SANDBOX_TIMEOUT_MS || '10000');
+const SANDBOX_MEMORY_MB = parseInt(process.env.SANDBOX_MEMORY_MB || '256');
+const SANDBOX_OUTPUT_BYTES = 1024 * 1024;
+
+const MAX_PATH_LENGTH = 255;
+// Letters, digits and a few punctuation characters that have no meaning to a
+// shell, a Dockerfile COPY or an archive tool. Segments may not start with
+// "-" so they can never be read as a command-line option.
+const SAFE_SEGMENT = /^[A-Za-z0-9_.@+][A-Za-z0-9_.@+-]*$/;
+
+// Checks an LLM-supplied path and returns it in normalized form. Paths must
+// be relative, use forward slashes and stay inside the workspace.
+export const normalizeFilename = (filename: string): string => {
+  if (typeof filename !== 'string' || filename.trim() === '') {
+    throw new WorkspaceError('File path is empty');
+  }
+
+  const normalized = filename.trim().replace(/^\.\//, '');
+
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new WorkspaceError(`File path is longer than ${MAX_PATH_LENGTH} characters: ${normalized.slice(0, 40)}...`);
+  }
+
+  if (normalized.startsWith('/') || /^[A-Za-z]:/.test(normalized) || normalized.includes('\\')) {
+    throw new WorkspaceError(`File path must be relative and use forward slashes: ${normalized}`);
+  }
+
+  for (const segment of normalized.split('/')) {
+    if (segment === '' || segment === '.' || segment === '..') {
+      throw new WorkspaceError(`File path may not contain empty, "." or ".." segments: ${normalized}`);
+    }
+    if (!SAFE_SEGMENT.test(segment)) {
+      throw new WorkspaceError(`File path contains unsupported characters: ${normalized}`);
+    }
+  }
+
+  return normalized;
+};
+
+// Validates a whole file set before anything touches the disk
+export const assertSafeFiles = <T extends GeneratedFile>(files: T[], limits: WorkspaceLimits = WORKSPACE_LIMITS): T[] => {
+  if (files.length > limits.maxFiles) {
+    throw new WorkspaceError(`Generated project has ${files.length} files; the limit is ${limits.maxFiles}`);
+  }
+
+  const seen = new Set<string>();
+  let totalBytes = 0;
+
+  const safeFiles = files.map(file => {
+    const filename = normalizeFilename(file.filename);
+    const key = filename.toLowerCase();
+    if (seen.has(key)) {
+      throw new WorkspaceError(`Duplicate file path: ${filename}`);
+    }
+    seen.add(key);
+
+    const bytes = Buffer.byteLength(file.content || '');
+    if (bytes > limits.maxFileBytes) {
+      throw new WorkspaceError(`${filename} is ${bytes} bytes; the per-file limit is ${limits.maxFileBytes}`);
+    }
+    totalBytes += bytes;
+
+    return { ...file, filename };
+  });
+
+  if (totalBytes > limits.maxTotalBytes) {
+    throw new WorkspaceError(`Generated project is ${totalBytes} bytes; the limit is ${limits.maxTotalBytes}`);
+  }
+
+  return safeFiles;
+};
+
+const PRLIMIT_PATHS = ['/usr/bin/prlimit', '/bin/prlimit'];
+let prlimitPath: string | null | undefined;
+
+// prlimit (util-linux) caps the address space of the child on Linux
+const findPrlimit = (): string | null => {
+  if (prlimitPath === undefined) {
+    prlimitPath = process.platform === 'linux'
+      ? PRLIMIT_PATHS.find(candidate => fs.existsSync(candidate)) || null
+      : null;
+  }
+  return prlimitPath;
+};
+
+// Runs a validator or build tool against workspace files. Arguments are
+// passed straight to the program without a shell, the environment is
+// stripped of server secrets, and the process is killed when it runs out of
+// time. A non-zero exit code is reported, not thrown.
+export const runSandboxed = (command: string, args: string[], options: SandboxOptions): Promise<SandboxResult> => {
+  const timeout = options.timeoutMs ?? SANDBOX_TIMEOUT_MS;
+  const memoryBytes = (options.maxMemoryMb ?? SANDBOX_MEMORY_MB) * 1024 * 1024;
+  const prlimit = findPrlimit();
+
+  const [file, fileArgs] = prlimit
+    ? [prlimit, [`--as=${memoryBytes}`, '--', command, ...args]]
+    : [command, args];
+
+  return new Promise(resolve => {
+    execFile(file, fileArgs, {
+      cwd: options.cwd,
+      timeout,
+      killSignal: 'SIGKILL',
+      maxBuffer: SANDBOX_OUTPUT_BYTES,
+      env: { PATH: process.env.PATH, LANG: 'C.UTF-8' },
+      windowsHide: true
+    }, (error: any, stdout, stderr) => {
+      resolve({
+        exitCode: error ? (typeof error.code === 'number' ? error.code : null) : 0,
+        stdout: stdout.toString(),
+        stderr: stderr.toString() || (error && typeof error.code !== 'number' ? error.message : ''),
+        timedOut: Boolean(error?.killed)
+      });
+    });
+  });
+};
+
+// A directory holding one materialized copy of a generated project
+export class Workspace {
+  private constructor(public readonly root: string) {}
+
+  // Writes the files under <cwd>/<area>/<id>. Every path is checked first, so
+  // nothing is written when any file in the set is unsafe.
+  static async create(area: string, files: GeneratedFile[], id?: string): Promise<Workspace> {
+    const safeFiles = assertSafeFiles(files);
+    const root = path.join(process.cwd(), area, id || `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`);
+
+    await fsp.mkdir(root, { recursive: true });
+    const workspace = new Workspace(await fsp.realpath(root));
+
+    try {
+      for (const file of safeFiles) {
+        await workspace.writeFile(file.filename, file.content, 'wx');
+      }
+    } catch (error) {
+      await workspace.remove();
+      throw error;
+    }
+
+    return workspace;
+  }
+
+  // An existing workspace, e.g. one that outlives the request that made it
+  static open(area: string, id: string): Workspace {
+    return new Workspace(path.join(process.cwd(), area, normalizeFilename(id)));
+  }
+
+  // Resolves a workspace-relative path, refusing anything that leaves the
+  // workspace directly or through a symlinked directory.
+  async resolve(filename: string): Promise<string> {
+    const target = path.join(this.root, normalizeFilename(filename));
+
+    let current = this.root;
+    for (const segment of path.relative(this.root, path.dirname(target)).split(path.sep).filter(Boolean)) {
+      current = path.join(current, segment);
+      const stat = await fsp.lstat(current).catch(() => null);
+      if (!stat) break;
+      if (stat.isSymbolicLink() || !stat.isDirectory()) {
+        throw new WorkspaceError(`File path passes through a link or file: ${filename}`);
+      }
+    }
+
+    return target;
+  }
+
+  // flag "wx" fails instead of following or replacing an existing entry
+  async writeFile(filename: string, content: string, flag: 'w' | 'wx' = 'w'): Promise<void> {
+    const target = await this.resolve(filename);
+    const existing = await fsp.lstat(target).catch(() => null);
+    if (existing?.isSymbolicLink()) {
+      throw new WorkspaceError(`Refusing to write through a symlink: ${filename}`);
+    }
+
+    await fsp.mkdir(path.dirname(target), { recursive: true });
+    await fsp.writeFile(target, content, { flag });
+  }
+
+  async remove(): Promise<void> {
+    await fsp.rm(this.root, { recursive: true, force: true });
+  }
+}